@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks } from '../parser';
+import { mergeTranslatedBlocks } from '../blocks';
+import {
+  getHeadingText,
+  slugify,
+  createSlugger,
+  rewriteFragmentLinks,
+  getHeadingAnchorTransform,
+  HeadingAnchorMode,
+} from '../anchors';
+
+const SOURCE = '# Getting Started\n\nSee [setup](#setup).\n\n## Setup\n\n## Setup';
+const TRANSLATION = '# はじめに\n\n[セットアップ](#setup)を参照。\n\n## セットアップ\n\n## セットアップ';
+
+function translate(mode: HeadingAnchorMode): string {
+  const source = parseMarkdownToBlocks(SOURCE);
+  const translated = parseMarkdownToBlocks(TRANSLATION).blocks;
+  const translations = new Map(source.blocks.map((block, i) => [block.hash, translated[i].content]));
+  const transform = getHeadingAnchorTransform(source, translations, mode);
+  return mergeTranslatedBlocks(source, translations, undefined, transform);
+}
+
+test('builds GitHub-style slugs from heading text', () => {
+  assert.equal(slugify('Install `npm` & [Run](./run.md)!'), 'install-npm--run');
+  assert.equal(slugify('設定 (Windows)'), '設定-windows');
+  assert.deepEqual(getHeadingText('## Setup ##'), { text: 'Setup' });
+  assert.deepEqual(getHeadingText('Setup {#custom}\n---'), { text: 'Setup', id: 'custom' });
+
+  const slug = createSlugger();
+  assert.deepEqual(['FAQ', 'FAQ', 'FAQ 1', 'FAQ'].map(slug), ['faq', 'faq-1', 'faq-1-1', 'faq-2']);
+});
+
+test('rewrites fragment links but not code spans or unknown fragments', () => {
+  const slugs = new Map([['setup', 'セットアップ']]);
+  assert.equal(
+    rewriteFragmentLinks('[a](#setup) `[b](#setup)` [c](#other) <a href="#setup">d</a>', slugs),
+    '[a](#セットアップ) `[b](#setup)` [c](#other) <a href="#セットアップ">d</a>'
+  );
+  assert.equal(rewriteFragmentLinks('[a]: #setup', slugs), '[a]: #セットアップ');
+  assert.equal(rewriteFragmentLinks('[a](#%E8%A8%AD)', new Map([['設', 'x y']])), '[a](#x%20y)');
+});
+
+test('rewrites links to the slugs of translated headings', () => {
+  assert.equal(translate('rewrite'), TRANSLATION.replace('(#setup)', '(#セットアップ)'));
+});
+
+test('keeps original heading IDs with anchors', () => {
+  assert.equal(
+    translate('anchor'),
+    '# <a id="getting-started"></a>はじめに\n\n[セットアップ](#setup)を参照。\n\n' +
+      '## <a id="setup"></a>セットアップ\n\n## <a id="setup-1"></a>セットアップ'
+  );
+  assert.equal(translate('off'), TRANSLATION);
+});
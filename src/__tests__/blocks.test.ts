@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks } from '../parser';
+import {
+  INTERNAL_MAX_CHUNK_SIZE,
+  selectBlocksForChunk,
+  splitIntoInternalChunks,
+  buildBlockTranslationMap,
+  buildBlockTranslationMapForRange,
+  mergeTranslatedBlocks,
+} from '../blocks';
+
+const SOURCE = '# Title\n\nFirst paragraph.\n\n- item 1\n- item 2\n\n```\ncode\n```\n\nLast paragraph.';
+const TRANSLATION = '# Titel\n\nErster Absatz.\n\n- Punkt 1\n- Punkt 2\n\n```\ncode\n```\n\nLetzter Absatz.';
+
+test('selectBlocksForChunk fills the chunk and always takes one block', () => {
+  const { blocks } = parseMarkdownToBlocks(SOURCE);
+
+  const all = selectBlocksForChunk(blocks, 0, 10000);
+  assert.equal(all.blocksToTranslate.length, blocks.length);
+  assert.equal(all.lastBlockIndex, blocks.length - 1);
+
+  const first = selectBlocksForChunk(blocks, 0, 10);
+  assert.deepEqual(
+    first.blocksToTranslate.map((block) => block.content),
+    ['# Title', '']
+  );
+  assert.equal(first.lastBlockIndex, 1);
+
+  const tooSmall = selectBlocksForChunk(blocks, 2, 1);
+  assert.deepEqual(
+    tooSmall.blocksToTranslate.map((block) => block.index),
+    [2]
+  );
+});
+
+test('selectBlocksForChunk returns nothing past the end', () => {
+  const { blocks } = parseMarkdownToBlocks(SOURCE);
+  const result = selectBlocksForChunk(blocks, blocks.length, 5000);
+  assert.deepEqual(result.blocksToTranslate, []);
+  assert.equal(result.lastBlockIndex, blocks.length - 1);
+});
+
+test('splitIntoInternalChunks keeps every block in order within the size limit', () => {
+  const paragraph = 'x'.repeat(INTERNAL_MAX_CHUNK_SIZE / 4);
+  const content = Array.from({ length: 10 }, () => paragraph).join('\n\n');
+  const { blocks } = parseMarkdownToBlocks(content);
+
+  const chunks = splitIntoInternalChunks(blocks);
+  assert.ok(chunks.length > 1);
+  assert.deepEqual(chunks.flat(), blocks);
+  for (const chunk of chunks) {
+    const size = chunk.reduce((total, block) => total + block.content.length + 1, 0);
+    assert.ok(size <= INTERNAL_MAX_CHUNK_SIZE + 1);
+  }
+});
+
+test('splitIntoInternalChunks puts an oversized block in its own chunk', () => {
+  const { blocks } = parseMarkdownToBlocks(`Small\n\n${'y'.repeat(INTERNAL_MAX_CHUNK_SIZE * 2)}\n\nSmall 2`);
+  const chunks = splitIntoInternalChunks(blocks);
+  assert.ok(chunks.some((chunk) => chunk.length === 1 && chunk[0].content.length > INTERNAL_MAX_CHUNK_SIZE));
+  assert.deepEqual(chunks.flat(), blocks);
+});
+
+test('buildBlockTranslationMap maps blocks by position when counts match', () => {
+  const source = parseMarkdownToBlocks(SOURCE);
+  const map = buildBlockTranslationMap(source, parseMarkdownToBlocks(TRANSLATION));
+  assert.equal(map.get(source.blocks[0].hash), '# Titel');
+  assert.equal(map.get(source.blocks[4].hash), '- Punkt 1\n- Punkt 2');
+  assert.equal(map.get(source.blocks[8].hash), 'Letzter Absatz.');
+});
+
+test('buildBlockTranslationMap matches by type when counts differ', () => {
+  const source = parseMarkdownToBlocks('# Title\n\nText');
+  const map = buildBlockTranslationMap(source, parseMarkdownToBlocks('# Titel\nText übersetzt'));
+  assert.equal(map.get(source.blocks[0].hash), '# Titel');
+  // Searching for the missing blank line skips the rest of the translation,
+  // so the remaining blocks fall back to their source content
+  assert.equal(map.get(source.blocks[1].hash), '');
+  assert.equal(map.get(source.blocks[2].hash), 'Text');
+});
+
+test('buildBlockTranslationMapForRange maps a slice of the document', () => {
+  const source = parseMarkdownToBlocks(SOURCE);
+  const range = source.blocks.slice(2, 5);
+  const map = buildBlockTranslationMapForRange(range, parseMarkdownToBlocks('Erster Absatz.\n\n- Punkt 1\n- Punkt 2'));
+  assert.equal(map.get(range[0].hash), 'Erster Absatz.');
+  assert.equal(map.get(range[2].hash), '- Punkt 1\n- Punkt 2');
+});
+
+test('mergeTranslatedBlocks joins translations in document order', () => {
+  const source = parseMarkdownToBlocks(SOURCE);
+  const map = buildBlockTranslationMap(source, parseMarkdownToBlocks(TRANSLATION));
+  assert.equal(mergeTranslatedBlocks(source, map), TRANSLATION);
+});
+
+test('mergeTranslatedBlocks writes the line ending of the source', () => {
+  const source = parseMarkdownToBlocks(SOURCE.replace(/\n/g, '\r\n'));
+  const map = buildBlockTranslationMap(source, parseMarkdownToBlocks(TRANSLATION));
+  assert.equal(mergeTranslatedBlocks(source, map), TRANSLATION.replace(/\n/g, '\r\n'));
+});
+
+test('mergeTranslatedBlocks stops at upToBlockIndex and falls back to the source', () => {
+  const source = parseMarkdownToBlocks(SOURCE);
+  const map = new Map([[source.blocks[0].hash, '# Titel']]);
+  assert.equal(mergeTranslatedBlocks(source, map, 2), '# Titel\n\nFirst paragraph.');
+});
+
+test('mergeTranslatedBlocks follows the new order of moved blocks', () => {
+  const map = new Map<string, string>();
+  const original = parseMarkdownToBlocks('One\n\nTwo');
+  map.set(original.blocks[0].hash, 'Eins');
+  map.set(original.blocks[1].hash, '');
+  map.set(original.blocks[2].hash, 'Zwei');
+
+  assert.equal(mergeTranslatedBlocks(parseMarkdownToBlocks('Two\n\nOne'), map), 'Zwei\n\nEins');
+});
@@ -0,0 +1,119 @@
+import { test, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TranslationCache } from '../cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const storageDirs: string[] = [];
+after(() => {
+  for (const storageDir of storageDirs) {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  }
+});
+
+function createStorage(persisted?: unknown): string {
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-translate-cache-'));
+  storageDirs.push(storageDir);
+  if (persisted !== undefined) {
+    fs.writeFileSync(path.join(storageDir, 'block-cache.json'), JSON.stringify(persisted));
+  }
+  return storageDir;
+}
+
+function readStorage(storageDir: string) {
+  return JSON.parse(fs.readFileSync(path.join(storageDir, 'block-cache.json'), 'utf-8'));
+}
+
+function createCache(storageDir: string, messages: string[] = []): TranslationCache {
+  const cache = new TranslationCache();
+  cache.attachStorage(storageDir, (message) => messages.push(message));
+  return cache;
+}
+
+test('loads persisted block translations and drops expired ones', async () => {
+  const now = Date.now();
+  const storageDir = createStorage({
+    version: 1,
+    entries: {
+      a: { ja: { translation: 'A-ja', timestamp: now }, ko: { translation: 'A-ko', timestamp: now - 8 * DAY_MS } },
+    },
+  });
+  const cache = createCache(storageDir);
+
+  assert.equal(cache.getBlock('a', 'ja'), 'A-ja');
+  assert.equal(cache.getBlock('a', 'ko'), undefined);
+  await cache.flush();
+  assert.deepEqual(Object.keys(readStorage(storageDir).entries.a), ['ja']);
+});
+
+test('ignores a cache file written in another format version', async () => {
+  const storageDir = createStorage({ version: 0, entries: { a: { ja: { translation: 'A', timestamp: Date.now() } } } });
+  const cache = createCache(storageDir);
+
+  assert.equal(cache.getBlock('a', 'ja'), undefined);
+  cache.setBlock('b', 'ja', 'B');
+  await cache.flush();
+  const persisted = readStorage(storageDir);
+  assert.equal(persisted.version, 1);
+  assert.deepEqual(Object.keys(persisted.entries), ['b']);
+});
+
+test('keeps the newest entries up to maxEntries', async () => {
+  const cache = createCache(createStorage());
+  cache.configure({ maxEntries: 2 });
+  cache.setBlocks(
+    new Map([
+      ['a', 'A'],
+      ['b', 'B'],
+    ]),
+    'ja'
+  );
+  cache.setBlock('c', 'ja', 'C');
+
+  assert.deepEqual(
+    cache.getBlocks(['a', 'b', 'c'], 'ja'),
+    new Map([
+      ['b', 'B'],
+      ['c', 'C'],
+    ])
+  );
+  assert.equal(cache.getStats().blockEntries, 2);
+  await cache.flush();
+});
+
+test('flush keeps entries written by another window', async () => {
+  const storageDir = createStorage();
+  const first = createCache(storageDir);
+  const second = createCache(storageDir);
+
+  first.setBlock('a', 'ja', 'A');
+  second.setBlock('b', 'ja', 'B');
+  await first.flush();
+  await second.flush();
+
+  assert.deepEqual(Object.keys(readStorage(storageDir).entries).sort(), ['a', 'b']);
+  assert.equal(second.getBlock('a', 'ja'), 'A');
+});
+
+test('flush after clearing the cache drops persisted entries', async () => {
+  const storageDir = createStorage({ version: 1, entries: { a: { ja: { translation: 'A', timestamp: Date.now() } } } });
+  const cache = createCache(storageDir);
+
+  cache.clearBlockCache();
+  await cache.flush();
+  assert.deepEqual(readStorage(storageDir), { version: 1, entries: {} });
+});
+
+test('logs an unreadable cache file and starts empty', async () => {
+  const storageDir = createStorage();
+  fs.writeFileSync(path.join(storageDir, 'block-cache.json'), '{ not json');
+  const messages: string[] = [];
+  const cache = createCache(storageDir, messages);
+
+  assert.equal(cache.getBlock('a', 'ja'), undefined);
+  assert.equal(messages.length, 1);
+  assert.match(messages[0], /^Failed to read translation cache: /);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getCodeLanguage, tokenizeCode, segmentCodeBlock, joinCodeSegments } from '../codeComments';
+
+function translateAll(content: string, translate: (text: string) => string): string {
+  const segmented = segmentCodeBlock(content)!;
+  return joinCodeSegments(segmented, new Map(segmented.segments.map((s) => [s.hash, translate(s.content)])));
+}
+
+test('reads the language from the fence info string', () => {
+  assert.equal(getCodeLanguage('```TypeScript title="a.ts"\ncode\n```'), 'typescript');
+  assert.equal(getCodeLanguage('~~~ {.python}\ncode\n~~~'), 'python');
+  assert.equal(getCodeLanguage('```\ncode\n```'), undefined);
+});
+
+test('keeps comment markers inside strings and # inside words as code', () => {
+  const code = 'echo "# not a comment" $# # real comment';
+  assert.deepEqual(tokenizeCode(code, 'sh').map((token) => token.type), ['code', 'string', 'code', 'comment']);
+  assert.equal(tokenizeCode(code, 'sh').map((token) => token.text).join(''), code);
+});
+
+test('segments comment text and leaves code and tool directives alone', () => {
+  const content = [
+    '```bash',
+    '#!/usr/bin/env bash',
+    '# Install the dependencies',
+    'npm install  # takes a while',
+    '```',
+  ].join('\n');
+  assert.deepEqual(
+    segmentCodeBlock(content)!.segments.map((segment) => segment.content),
+    ['Install the dependencies', 'takes a while']
+  );
+  assert.equal(
+    translateAll(content, (text) => `<${text}>`),
+    '```bash\n#!/usr/bin/env bash\n# <Install the dependencies>\nnpm install  # <takes a while>\n```'
+  );
+});
+
+test('translates block comments line by line and keeps their decorations', () => {
+  const content = '```ts\n/**\n * Add two numbers.\n * @param a - First\n */\nconst add = (a: number) => a; // Sum\n```';
+  assert.deepEqual(
+    segmentCodeBlock(content)!.segments.map((segment) => segment.content),
+    ['Add two numbers.', '@param a - First', 'Sum']
+  );
+  assert.equal(
+    translateAll(content, (text) => text.toUpperCase()),
+    '```ts\n/**\n * ADD TWO NUMBERS.\n * @PARAM A - FIRST\n */\nconst add = (a: number) => a; // SUM\n```'
+  );
+});
+
+test('translates only string literals on lines marked with a translate comment', () => {
+  const content = '```python\nprint("Hello")  # translate\nprint("World")\n```';
+  assert.deepEqual(segmentCodeBlock(content)!.segments.map((segment) => segment.content), ['Hello']);
+  assert.equal(
+    translateAll(content, () => 'Say "hi"\nnow'),
+    '```python\nprint("Say \\"hi\\" now")  # translate\nprint("World")\n```'
+  );
+});
+
+test('never lets a translation end a block comment early', () => {
+  const content = '```css\n/* Main color */\n```';
+  assert.equal(translateAll(content, () => 'Color */ here'), '```css\n/* Color * / here */\n```');
+  assert.equal(segmentCodeBlock('```unknown\n// text\n```'), undefined);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks } from '../parser';
+import { parseContainer, formatContainer, getContainerBlocks } from '../container';
+
+function parseFirst(content: string) {
+  const container = parseContainer(parseMarkdownToBlocks(content).blocks[0]);
+  assert.ok(container);
+  return container;
+}
+
+test('splits directives into kind, title and body', () => {
+  const bracketed = parseFirst(':::tip[Good to know]{#tip .wide}\nBody text.\n:::');
+  assert.equal(bracketed.kind, 'tip');
+  assert.equal(bracketed.title, 'Good to know');
+  assert.equal(bracketed.body, 'Body text.');
+  assert.equal(formatContainer(bracketed, 'Gut zu wissen', 'Text.'), ':::tip[Gut zu wissen]{#tip .wide}\nText.\n:::');
+
+  const plain = parseFirst('::: warning Careful now\n\n- one\n- two\n:::');
+  assert.equal(plain.kind, 'warning');
+  assert.equal(plain.title, 'Careful now');
+  assert.equal(formatContainer(plain, plain.title, plain.body), '::: warning Careful now\n\n- one\n- two\n:::');
+
+  assert.equal(parseFirst(':::note\n:::').title, '');
+});
+
+test('splits alerts and restores the quote markers', () => {
+  const alert = parseFirst('> [!WARNING] Heads up\n> First line.\n>\n> Second paragraph.');
+  assert.equal(alert.kind, 'WARNING');
+  assert.equal(alert.title, 'Heads up');
+  assert.equal(alert.body, 'First line.\n\nSecond paragraph.');
+  assert.equal(
+    formatContainer(alert, 'Achtung', 'Erste Zeile.\n\nZweiter Absatz.'),
+    '> [!WARNING] Achtung\n> Erste Zeile.\n>\n> Zweiter Absatz.'
+  );
+  assert.equal(parseContainer({ type: 'paragraph', content: 'Text' }), undefined);
+});
+
+test('parses the title and body as separate blocks', () => {
+  const { blocks, bodyStart } = getContainerBlocks(parseFirst(':::tip Title\nBody.\n\n| a |\n|---|\n:::'));
+  assert.equal(blocks[0].content, 'Title');
+  assert.deepEqual(
+    blocks.slice(bodyStart).map((block) => block.type),
+    ['paragraph', 'blank_lines', 'table']
+  );
+  assert.equal(getContainerBlocks(parseFirst(':::tip\nBody.\n:::')).bodyStart, 0);
+});
+
+test('rebuilds containers whose body starts with a blank line unchanged', () => {
+  for (const content of ['::: warning Careful now\n\n- one\n- two\n:::', '> [!NOTE] Title\n>\n> Body']) {
+    const container = parseFirst(content);
+    const { blocks, bodyStart } = getContainerBlocks(container);
+    const body = blocks.slice(bodyStart).map((block) => block.content).join('\n');
+    assert.equal(formatContainer(container, blocks[0].content, body), content);
+  }
+});
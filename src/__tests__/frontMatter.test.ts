@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseFrontMatter, getTranslatableFields, serializeFrontMatter } from '../frontMatter';
+
+const keys = ['title', 'description', 'summary'];
+
+function translate(content: string, translations: Record<string, string>): string {
+  const frontMatter = parseFrontMatter(content)!;
+  const fields = new Set(getTranslatableFields(frontMatter, keys));
+  return serializeFrontMatter(frontMatter, (field) => (fields.has(field) ? translations[field.value] : undefined));
+}
+
+test('translates only the selected YAML keys', () => {
+  const content = [
+    '---',
+    'title: Getting started # shown in the sidebar',
+    'date: 2024-01-01',
+    'slug: getting-started',
+    'tags: [guide, intro]',
+    "description: 'It''s easy'",
+    '---',
+  ].join('\n');
+  assert.equal(
+    translate(content, { 'Getting started': 'はじめに', "It's easy": '簡単です' }),
+    [
+      '---',
+      'title: はじめに # shown in the sidebar',
+      'date: 2024-01-01',
+      'slug: getting-started',
+      'tags: [guide, intro]',
+      "description: '簡単です'",
+      '---',
+    ].join('\n')
+  );
+});
+
+test('quotes plain values that would not be valid YAML', () => {
+  assert.equal(translate('---\ntitle: Setup\n---', { Setup: 'Step: one' }), '---\ntitle: "Step: one"\n---');
+});
+
+test('reads and writes escapes in double-quoted values', () => {
+  const content = '---\ntitle: "Use C:\\\\new folder\\t\\"now\\""\n---';
+  const frontMatter = parseFrontMatter(content)!;
+  assert.equal(frontMatter.fields[0].value, 'Use C:\\new folder\t"now"');
+  assert.equal(serializeFrontMatter(frontMatter, (field) => field.value), content);
+});
+
+test('keeps the indentation of block scalars', () => {
+  const content = '---\nsummary: |\n  First line.\n  Second line.\nauthor: me\n---';
+  assert.equal(
+    translate(content, { 'First line.\nSecond line.': '一行目。\n二行目。' }),
+    '---\nsummary: |\n  一行目。\n  二行目。\nauthor: me\n---'
+  );
+});
+
+test('translates top-level TOML strings', () => {
+  const content = '+++\ntitle = "Hello \\"world\\""\ndraft = false\n[params]\ndescription = "nested"\n+++';
+  const frontMatter = parseFrontMatter(content)!;
+  assert.deepEqual(
+    getTranslatableFields(frontMatter, keys).map((field) => field.value),
+    ['Hello "world"']
+  );
+  assert.equal(
+    translate(content, { 'Hello "world"': 'こんにちは' }),
+    '+++\ntitle = "こんにちは"\ndraft = false\n[params]\ndescription = "nested"\n+++'
+  );
+});
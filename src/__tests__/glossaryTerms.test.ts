@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks } from '../parser';
+import {
+  resolveGlossaryTerms,
+  formatGlossaryForPrompt,
+  findGlossaryViolations,
+  checkBlockGlossary,
+  describeGlossaryViolation,
+} from '../glossaryTerms';
+
+test('resolves terms by language name or code, with later sources taking precedence', () => {
+  const terms = resolveGlossaryTerms(
+    [
+      { '*': { Acme: 'Acme' }, ja: { cache: 'キャッシュ', ' ': 'ignored' }, de: { cache: 'Zwischenspeicher' } },
+      { Japanese: { cache: 'キャッシュメモリ', model: '' } },
+    ],
+    'Japanese'
+  );
+  assert.deepEqual(terms, [
+    { source: 'Acme', target: 'Acme' },
+    { source: 'cache', target: 'キャッシュメモリ' },
+  ]);
+});
+
+test('formats terms for the prompt', () => {
+  assert.equal(formatGlossaryForPrompt([]), '');
+  assert.equal(
+    formatGlossaryForPrompt([
+      { source: 'Acme', target: 'Acme' },
+      { source: 'cache', target: 'キャッシュ' },
+    ]),
+    '[Glossary - always translate these terms exactly as listed]\n' +
+      '- Acme → Acme (do not translate)\n' +
+      '- cache → キャッシュ\n\n'
+  );
+});
+
+test('finds whole-word terms whose target is missing from the translation', () => {
+  const terms = [
+    { source: 'cache', target: 'キャッシュ' },
+    { source: 'Acme', target: 'Acme' },
+  ];
+  assert.deepEqual(findGlossaryViolations('Clear the Cache of acme.', 'アクメのキャッシュを消去します。', terms), [
+    { source: 'Acme', target: 'Acme' },
+  ]);
+  assert.deepEqual(findGlossaryViolations('Use caches.', '使用します。', terms), []);
+});
+
+test('checks translated blocks and skips passthrough blocks', () => {
+  const { blocks } = parseMarkdownToBlocks('Clear the cache.\n\n```\ncache\n```\n\nNo terms here.');
+  const translations = new Map([
+    [blocks[0].hash, '消去します。'],
+    [blocks[1].hash, '```\ncache\n```'],
+  ]);
+  const violations = checkBlockGlossary(blocks, translations, [{ source: 'cache', target: 'キャッシュ' }]);
+  assert.deepEqual(violations, [{ source: 'cache', target: 'キャッシュ', blockIndex: 0 }]);
+  assert.equal(describeGlossaryViolation(violations[0]), 'Block 1: "cache" should be translated as "キャッシュ"');
+});
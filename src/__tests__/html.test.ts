@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinSegments } from '../segments';
+import { segmentHtml, getHtmlAttributeSegments, translateHtmlAttributes } from '../html';
+
+test('segments text between block-level tags and keeps inline tags inside the text', () => {
+  const content = '<details>\n  <summary>Show <b>more</b></summary>\n\n  Hidden &amp; shown text.\n</details>';
+  const segmented = segmentHtml(content);
+  assert.deepEqual(
+    segmented.segments.map((segment) => segment.content),
+    ['Show <b>more</b>', 'Hidden &amp; shown text.']
+  );
+  assert.equal(joinSegments(segmented, new Map()), content);
+});
+
+test('never segments comments or raw element content', () => {
+  const segmented = segmentHtml('<div>\n<!-- note -->\n<pre>keep this</pre>\n<p>Text</p>\n</div>');
+  assert.deepEqual(
+    segmented.segments.map((segment) => segment.content),
+    ['Text']
+  );
+});
+
+test('rebuilds the block with translated text', () => {
+  const segmented = segmentHtml('<p align="center">\n  Hello\n</p>');
+  const translations = new Map([[segmented.segments[0].hash, 'こんにちは']]);
+  assert.equal(joinSegments(segmented, translations), '<p align="center">\n  こんにちは\n</p>');
+});
+
+test('translates only the selected attributes and keeps quotes', () => {
+  const content = '<img src="logo.png" alt="Project logo" title=\'Logo\' width="100">';
+  assert.deepEqual(
+    getHtmlAttributeSegments(content, ['alt', 'title']).map((segment) => segment.content),
+    ['Project logo', 'Logo']
+  );
+  const translations: Record<string, string> = { 'Project logo': 'プロジェクトの "ロゴ"', Logo: "ロゴ's" };
+  assert.equal(
+    translateHtmlAttributes(content, ['alt', 'title'], (value) => translations[value]),
+    '<img src="logo.png" alt="プロジェクトの &quot;ロゴ&quot;" title=\'ロゴ&#39;s\' width="100">'
+  );
+});
+
+test('keeps JSX expressions and expression props', () => {
+  const content = '<Tabs.Item label="Install" onClick={() => { run(); }}>\n  Run {command} first\n</Tabs.Item>';
+  const segmented = segmentHtml(content, { jsx: true });
+  assert.deepEqual(
+    segmented.segments.map((segment) => segment.content),
+    ['Run', 'first']
+  );
+  assert.equal(joinSegments(segmented, new Map()), content);
+  assert.deepEqual(
+    getHtmlAttributeSegments(content, ['label', 'onclick'], { jsx: true }).map((segment) => segment.content),
+    ['Install']
+  );
+});
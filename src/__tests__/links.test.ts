@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { rewriteMarkdownLinks, resolveLinkPath, getRelativeLink } from '../links';
+
+test('rewrites relative links to Markdown documents and keeps fragments', () => {
+  const markdown = [
+    'See [the guide](guide.md#setup) and [the site](https://example.com/guide.md).',
+    '',
+    '<a href="./api.mdx">API</a> and [top](#top)',
+    '',
+    '[ref]: <../other doc.md>',
+  ].join('\n');
+  assert.equal(
+    rewriteMarkdownLinks(markdown, (link) => `ja/${link}`),
+    [
+      'See [the guide](ja/guide.md#setup) and [the site](https://example.com/guide.md).',
+      '',
+      '<a href="ja/./api.mdx">API</a> and [top](#top)',
+      '',
+      '[ref]: <ja/../other doc.md>',
+    ].join('\n')
+  );
+});
+
+test('leaves links in code alone and keeps percent-encoding', () => {
+  const markdown = 'Use `[x](a.md)` or [y](my%20notes.md).\n\n```md\n[z](b.md)\n```';
+  const links: string[] = [];
+  const result = rewriteMarkdownLinks(markdown, (link) => {
+    links.push(link);
+    return `../${link}`;
+  });
+  assert.deepEqual(links, ['my notes.md']);
+  assert.equal(result, 'Use `[x](a.md)` or [y](../my%20notes.md).\n\n```md\n[z](b.md)\n```');
+});
+
+test('keeps CRLF line endings', () => {
+  assert.equal(
+    rewriteMarkdownLinks('[a](a.md)\r\n\r\n[b](b.md)', (link) => `../${link}`),
+    '[a](../a.md)\r\n\r\n[b](../b.md)'
+  );
+});
+
+test('resolves links against the workspace', () => {
+  assert.equal(resolveLinkPath('docs/guide.md', '../README.md'), 'README.md');
+  assert.equal(resolveLinkPath('docs/guide.md', './api/index.md'), 'docs/api/index.md');
+  assert.equal(resolveLinkPath('docs/guide.md', '../../outside.md'), undefined);
+});
+
+test('builds links from the output location and keeps the ./ style', () => {
+  assert.equal(getRelativeLink('docs/ja/guide.md', 'docs/ja/api.md', './api.md'), './api.md');
+  assert.equal(getRelativeLink('docs/ja/guide.md', 'docs/api.md', './api.md'), '../api.md');
+  assert.equal(getRelativeLink('docs/guide.ja.md', 'docs/api.ja.md', 'api.md'), 'api.ja.md');
+});
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinCodeSegments } from '../codeComments';
+import { segmentMermaidBlock } from '../mermaid';
+
+function labels(content: string): string[] {
+  return segmentMermaidBlock(content)!.segments.map((segment) => segment.content);
+}
+
+function translateAll(content: string, translate: (text: string) => string): string {
+  const segmented = segmentMermaidBlock(content)!;
+  return joinCodeSegments(segmented, new Map(segmented.segments.map((s) => [s.hash, translate(s.content)])));
+}
+
+test('finds flowchart node, edge and subgraph labels but not IDs or styles', () => {
+  const content = [
+    '```mermaid',
+    'flowchart TD',
+    '  subgraph build [Build step]',
+    '    A[Start here] -->|yes| B("Quoted label")',
+    '    B -- on failure --> C{Retry?}',
+    '    C --> D((Done))',
+    '  end',
+    '  classDef warn fill:#f96',
+    '  %% A comment',
+    '```',
+  ].join('\n');
+  assert.deepEqual(labels(content), ['Build step', 'Start here', 'yes', 'Quoted label', 'on failure', 'Retry?', 'Done']);
+  assert.equal(
+    translateAll(content, (text) => text.toUpperCase()),
+    content
+      .replace('Build step', 'BUILD STEP')
+      .replace('Start here', 'START HERE')
+      .replace('|yes|', '|YES|')
+      .replace('Quoted label', 'QUOTED LABEL')
+      .replace('on failure', 'ON FAILURE')
+      .replace('Retry?', 'RETRY?')
+      .replace('Done', 'DONE')
+  );
+});
+
+test('finds sequence diagram aliases, messages, notes and block labels', () => {
+  const content = [
+    '```mermaid',
+    'sequenceDiagram',
+    '  participant A as Alice',
+    '  participant B',
+    '  A->>+B: Hello Bob',
+    '  Note over A,B: A short note',
+    '  alt is sick',
+    '    B-->>A: Not so good',
+    '  end',
+    '```',
+  ].join('\n');
+  assert.deepEqual(labels(content), ['Alice', 'Hello Bob', 'A short note', 'is sick', 'Not so good']);
+});
+
+test('finds class diagram relation labels, notes and the front matter title', () => {
+  const content = [
+    '```mermaid',
+    '---',
+    'title: Animal example',
+    '---',
+    'classDiagram',
+    '  Animal <|-- Duck : inherits from',
+    '  note for Duck "Can fly"',
+    '  class Duck {',
+    '    +swim()',
+    '  }',
+    '```',
+  ].join('\n');
+  assert.deepEqual(labels(content), ['Animal example', 'inherits from', 'Can fly']);
+});
+
+test('writes label delimiters in translations as entity codes', () => {
+  const content = '```mermaid\ngraph LR\n  A[Open] --> B["Close"]\n```';
+  assert.equal(
+    translateAll(content, (text) => `[${text}] "x"`),
+    '```mermaid\ngraph LR\n  A[#91;Open#93; #34;x#34;] --> B["[Close] #34;x#34;"]\n```'
+  );
+  assert.equal(segmentMermaidBlock('```mermaid\npie title Pets\n  "Dogs" : 386\n```'), undefined);
+  assert.equal(segmentMermaidBlock('```js\ngraph LR\n```'), undefined);
+});
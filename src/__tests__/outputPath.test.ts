@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findOutputPaths, formatOutputPath, getGlobBase, getOutputPathVariables } from '../outputPath';
+
+test('mirrors a folder into a language subfolder', () => {
+  const variables = getOutputPathVariables('docs/guide/intro.md', 'ja', 'docs');
+  assert.equal(formatOutputPath('{root}/{lang}/{path}', variables), 'docs/ja/guide/intro.md');
+  assert.equal(formatOutputPath('i18n/{lang}/{path}', variables), 'i18n/ja/guide/intro.md');
+});
+
+test('supports name, dir and ext variables', () => {
+  const variables = getOutputPathVariables('docs/intro.md', 'zh-CN');
+  assert.equal(formatOutputPath('{dir}/{name}.{lang}{ext}', variables), 'docs/intro.zh-CN.md');
+  assert.equal(formatOutputPath('{dir}/{lang}/{name}.md', variables), 'docs/zh-CN/intro.md');
+});
+
+test('handles files at the workspace root', () => {
+  const variables = getOutputPathVariables('README.md', 'ja', '.');
+  assert.equal(formatOutputPath('{root}/{lang}/{path}', variables), 'ja/README.md');
+  assert.equal(formatOutputPath('{dir}/{name}.{lang}{ext}', variables), 'README.ja.md');
+});
+
+test('rejects unknown variables and paths outside the workspace', () => {
+  const variables = getOutputPathVariables('docs/intro.md', 'ja');
+  assert.throws(() => formatOutputPath('{dir}/{language}/{name}.md', variables), /Unknown variable \{language\}/);
+  assert.throws(() => formatOutputPath('../{lang}/{name}.md', variables), /outside the workspace/);
+});
+
+test('finds the folder part of a glob', () => {
+  assert.equal(getGlobBase('docs/**/*.md'), 'docs');
+  assert.equal(getGlobBase('docs/guide/*.md'), 'docs/guide');
+  assert.equal(getGlobBase('**/*.md'), '.');
+  assert.equal(getGlobBase('docs/intro.md'), 'docs');
+});
+
+test('finds the outputs of an earlier run in another language', () => {
+  // docs/ was translated to Korean, and is now translated to Japanese
+  const sources = ['docs/intro.md', 'docs/guide/setup.md', 'docs/ko/intro.md', 'docs/ko/guide/setup.md', 'docs/api.md'];
+  assert.deepEqual(
+    [...findOutputPaths(sources, '{root}/{lang}/{path}', ['ja', 'ko'], 'docs')],
+    ['docs/ko/intro.md', 'docs/ko/guide/setup.md']
+  );
+  const suffixed = ['docs/intro.md', 'docs/intro.ko.md', 'docs/intro.api.md'];
+  assert.deepEqual(
+    [...findOutputPaths(suffixed, '{dir}/{name}.{lang}{ext}', ['ja', 'ko'], 'docs')],
+    ['docs/intro.ko.md']
+  );
+});
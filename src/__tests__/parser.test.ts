@@ -0,0 +1,345 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  parseMarkdownToBlocks,
+  blocksToContent,
+  addLineEdit,
+  reparseMarkdownBlocks,
+  detectLineEnding,
+  restoreLineEndings,
+} from '../parser';
+import { EditedLines } from '../types/block';
+
+function blockTypes(content: string): string[] {
+  return parseMarkdownToBlocks(content).blocks.map((block) => block.type);
+}
+
+test('parses front matter at the document start as one block', () => {
+  const doc = parseMarkdownToBlocks('---\ntitle: Hello\ntags: [a, b]\n---\n\n# Heading\n');
+  assert.equal(doc.blocks[0].type, 'front_matter');
+  assert.equal(doc.blocks[0].content, '---\ntitle: Hello\ntags: [a, b]\n---');
+  assert.deepEqual(blockTypes('---\ntitle: Hello\n---\n\n# Heading\n'), [
+    'front_matter',
+    'blank_lines',
+    'heading',
+    'blank_lines',
+  ]);
+  assert.equal(parseMarkdownToBlocks('+++\ntitle = "Hello"\n+++\nText').blocks[0].type, 'front_matter');
+});
+
+test('treats --- after the first line as a thematic break', () => {
+  assert.deepEqual(blockTypes('Text\n\n---\n\nMore'), [
+    'paragraph',
+    'blank_lines',
+    'thematic_break',
+    'blank_lines',
+    'paragraph',
+  ]);
+});
+
+test('keeps nested fences inside a longer outer fence', () => {
+  const content = '````md\n```js\nconst a = 1;\n```\n````\n\nText';
+  const doc = parseMarkdownToBlocks(content);
+  assert.equal(doc.blocks[0].type, 'code_block');
+  assert.equal(doc.blocks[0].content, '````md\n```js\nconst a = 1;\n```\n````');
+  assert.equal(doc.blocks[2].content, 'Text');
+});
+
+test('does not treat Markdown inside a fence as blocks', () => {
+  const content = '~~~\n# not a heading\n\n- not a list\n~~~';
+  assert.deepEqual(blockTypes(content), ['code_block']);
+});
+
+test('keeps a list with blank lines between items in one block', () => {
+  const doc = parseMarkdownToBlocks('- a\n- b\n\n- c\n  continued\n\nAfter');
+  assert.equal(doc.blocks[0].type, 'list');
+  assert.equal(doc.blocks[0].content, '- a\n- b\n\n- c\n  continued');
+  assert.equal(doc.blocks[2].type, 'paragraph');
+});
+
+test('parses tables as one block', () => {
+  const doc = parseMarkdownToBlocks('| a | b |\n|---|---|\n| 1 | 2 |\n\nText');
+  assert.equal(doc.blocks[0].type, 'table');
+  assert.equal(doc.blocks[0].content, '| a | b |\n|---|---|\n| 1 | 2 |');
+});
+
+test('parses HTML blocks until the next blank line', () => {
+  const doc = parseMarkdownToBlocks('Intro\n<div align="center">\n# not a heading\n</div>\n\nText');
+  assert.deepEqual(
+    doc.blocks.map((block) => [block.type, block.content]),
+    [
+      ['paragraph', 'Intro'],
+      ['html_block', '<div align="center">\n# not a heading\n</div>'],
+      ['blank_lines', ''],
+      ['paragraph', 'Text'],
+    ]
+  );
+});
+
+test('parses setext headings', () => {
+  assert.deepEqual(
+    parseMarkdownToBlocks('Title\n=====\n\nLong\nsubtitle\n---').blocks.map((block) => [block.type, block.content]),
+    [
+      ['heading', 'Title\n====='],
+      ['blank_lines', ''],
+      ['heading', 'Long\nsubtitle\n---'],
+    ]
+  );
+});
+
+test('parses indented code blocks but not indented paragraph continuations', () => {
+  const doc = parseMarkdownToBlocks('Text\n\n    code\n\n    more\n\nPara\n    still para');
+  assert.deepEqual(
+    doc.blocks.map((block) => [block.type, block.content]),
+    [
+      ['paragraph', 'Text'],
+      ['blank_lines', ''],
+      ['code_block', '    code\n\n    more'],
+      ['blank_lines', ''],
+      ['paragraph', 'Para\n    still para'],
+    ]
+  );
+});
+
+test('keeps lazy continuation lines and nested lists in blockquotes', () => {
+  const doc = parseMarkdownToBlocks('> quote\nlazy line\n> - a\n> - b\n\nAfter');
+  assert.equal(doc.blocks[0].type, 'blockquote');
+  assert.equal(doc.blocks[0].content, '> quote\nlazy line\n> - a\n> - b');
+  assert.equal(doc.blocks[2].content, 'After');
+});
+
+test('splits lists at a change of marker and keeps fences inside items', () => {
+  assert.deepEqual(blockTypes('- a\n+ b'), ['list', 'list']);
+  assert.deepEqual(blockTypes('1. a\n\n2) b'), ['list', 'blank_lines', 'list']);
+  const doc = parseMarkdownToBlocks('- a\n  ```\n  code\n\n  ```\n- b\nlazy\n\nAfter');
+  assert.equal(doc.blocks[0].content, '- a\n  ```\n  code\n\n  ```\n- b\nlazy');
+  assert.equal(doc.blocks[2].type, 'paragraph');
+});
+
+test('only lets list items starting at 1 interrupt a paragraph', () => {
+  assert.deepEqual(blockTypes('Para\n2. not a list'), ['paragraph']);
+  assert.deepEqual(blockTypes('Para\n1. a list'), ['paragraph', 'list']);
+});
+
+test('ends HTML comments at the closing marker, even across blank lines', () => {
+  const doc = parseMarkdownToBlocks('<!-- note\n\nstill a comment -->\nText');
+  assert.deepEqual(
+    doc.blocks.map((block) => block.type),
+    ['html_block', 'paragraph']
+  );
+  assert.equal(doc.blocks[0].content, '<!-- note\n\nstill a comment -->');
+});
+
+test('requires a delimiter row for tables', () => {
+  assert.deepEqual(blockTypes('a | b | c\nnot a table'), ['paragraph']);
+  assert.deepEqual(blockTypes('a | b\n--|--|--'), ['paragraph']);
+  const doc = parseMarkdownToBlocks('Intro\nx | y\n--|--\n1 | 2\n# Next');
+  assert.deepEqual(
+    doc.blocks.map((block) => [block.type, block.content]),
+    [
+      ['paragraph', 'Intro'],
+      ['table', 'x | y\n--|--\n1 | 2'],
+      ['heading', '# Next'],
+    ]
+  );
+});
+
+test('parses display math, footnote and link reference definitions', () => {
+  const content = [
+    'Text',
+    '$$',
+    'x^2',
+    '',
+    '$$',
+    '[^1]: Note',
+    '    more note',
+    '',
+    '[docs]: https://example.com "Docs"',
+    '[api]: <./api.md>',
+    '',
+    '$$x$$ is inline',
+  ].join('\n');
+  assert.deepEqual(
+    parseMarkdownToBlocks(content).blocks.map((block) => [block.type, block.content]),
+    [
+      ['paragraph', 'Text'],
+      ['math_block', '$$\nx^2\n\n$$'],
+      ['footnote_definition', '[^1]: Note\n    more note'],
+      ['blank_lines', ''],
+      ['link_reference_definition', '[docs]: https://example.com "Docs"\n[api]: <./api.md>'],
+      ['blank_lines', ''],
+      ['paragraph', '$$x$$ is inline'],
+    ]
+  );
+  // Reference definitions can't interrupt a paragraph, and unclosed math is a paragraph
+  assert.deepEqual(blockTypes('Para\n[id]: https://example.com'), ['paragraph']);
+  assert.deepEqual(blockTypes('$$\nunclosed'), ['paragraph']);
+});
+
+test('records line ranges and indexes', () => {
+  const doc = parseMarkdownToBlocks('# A\n\nline 1\nline 2\n\n\n> quote');
+  assert.deepEqual(
+    doc.blocks.map((block) => [block.index, block.startLine, block.endLine]),
+    [
+      [0, 0, 0],
+      [1, 1, 1],
+      [2, 2, 3],
+      [3, 4, 5],
+      [4, 6, 6],
+    ]
+  );
+});
+
+test('gives identical blocks the same hash', () => {
+  const doc = parseMarkdownToBlocks('Same\n\nOther\n\nSame');
+  assert.equal(doc.blocks[0].hash, doc.blocks[4].hash);
+  assert.notEqual(doc.blocks[0].hash, doc.blocks[2].hash);
+  assert.equal(doc.blocksByHash.get(doc.blocks[0].hash)?.length, 2);
+});
+
+test('round-trips content through blocksToContent', () => {
+  const samples = [
+    '',
+    '\n',
+    'Single line',
+    '# Title\n\nParagraph\nwith two lines\n',
+    '---\ntitle: x\n---\n# Heading\n',
+    '- a\n- b\n\n  - nested\n\n1. one\n2. two\n',
+    '```js\ncode\n```\n\n\n\n> quote\n> more\n\n***\n',
+    '| a | b |\n|---|---|\n| 1 | 2 |\n<div>\nhtml\n</div>\n\ntrailing\n\n',
+    '````\n```\nunclosed inner\n````\n```\nunclosed outer',
+    'Title\n===\n\n\tcode\n> quote\nlazy\n\n<!--\n\n-->\n- a\n\n\n',
+  ];
+  for (const sample of samples) {
+    assert.equal(blocksToContent(parseMarkdownToBlocks(sample).blocks), sample);
+  }
+});
+
+test('parses MDX statements, expressions and JSX only in MDX mode', () => {
+  const content = [
+    "import { Note } from './note';",
+    'export const meta = { draft: true };',
+    '',
+    '<Note title="Heads up">',
+    '  Text inside **Note**.',
+    '</Note>',
+    '',
+    '{/* a comment',
+    '   over lines */}',
+    '',
+    '    Indented text',
+  ].join('\n');
+  assert.deepEqual(
+    parseMarkdownToBlocks(content, { mdx: true }).blocks.map((block) => block.type),
+    ['mdx_esm', 'blank_lines', 'jsx_block', 'blank_lines', 'mdx_expression', 'blank_lines', 'paragraph']
+  );
+  assert.equal(blockTypes(content)[0], 'paragraph');
+  assert.equal(blockTypes(content)[2], 'html_block');
+});
+
+test('parses alerts and container directives, including nested and unclosed directives', () => {
+  assert.deepEqual(blockTypes('> [!NOTE]\n> Read this.\n\n> Just a quote'), ['alert', 'blank_lines', 'blockquote']);
+
+  const nested = '::::tip[Title]\nText\n\n:::warning\nInner\n:::\n\n```\n::::\n```\n::::\nAfter';
+  const blocks = parseMarkdownToBlocks(nested).blocks;
+  assert.deepEqual(blocks.map((block) => block.type), ['container_directive', 'paragraph']);
+  assert.equal(blocks[0].content, nested.slice(0, nested.lastIndexOf('\n')));
+
+  assert.deepEqual(blockTypes('Text\n:::note\nBody\n:::'), ['paragraph', 'container_directive']);
+  assert.deepEqual(blockTypes(':::note\nnever closed'), ['paragraph']);
+});
+
+/**
+ * Replace lines start..end with text
+ */
+function replaceLines(content: string, start: number, end: number, text: string): string {
+  const lines = content.split('\n');
+  return [...lines.slice(0, start), text, ...lines.slice(end + 1)].join('\n');
+}
+
+const INCREMENTAL_SAMPLE = [
+  '# Title',
+  'Intro text',
+  '$$ not closed',
+  '',
+  '- one',
+  '- two',
+  '',
+  '',
+  'After the list',
+  ':::note',
+  '| a | b |',
+  '| - | - |',
+  '| 1 | 2 |',
+  '```js',
+  'code()',
+  '```',
+  '    indented',
+  'End',
+].join('\n');
+
+test('re-parses edited lines to the same blocks as a full parse', () => {
+  const replacements = ['', 'Text', '  indented', '    code', '- item', '$$', ':::', '```', '---', 'a\n\nb'];
+  const lineCount = INCREMENTAL_SAMPLE.split('\n').length;
+  const previous = parseMarkdownToBlocks(INCREMENTAL_SAMPLE);
+  for (let start = 0; start < lineCount; start++) {
+    for (const end of [start, Math.min(start + 2, lineCount - 1)]) {
+      for (const text of replacements) {
+        const content = replaceLines(INCREMENTAL_SAMPLE, start, end, text);
+        const edited: EditedLines = { start, oldEnd: end, newEnd: start + text.split('\n').length - 1 };
+        assert.deepEqual(
+          reparseMarkdownBlocks(previous, content, edited),
+          parseMarkdownToBlocks(content),
+          `lines ${start}-${end} replaced with ${JSON.stringify(text)}`
+        );
+      }
+    }
+  }
+});
+
+test('reuses the blocks around the edited lines', () => {
+  const previous = parseMarkdownToBlocks('# A\n\nOne\n\nTwo\n\nThree\n\nFour');
+  const content = replaceLines('# A\n\nOne\n\nTwo\n\nThree\n\nFour', 4, 4, 'Second\nline\n\nmore');
+  const reparsed = reparseMarkdownBlocks(previous, content, { start: 4, oldEnd: 4, newEnd: 7 });
+  assert.equal(reparsed.blocks[0], previous.blocks[0]);
+  assert.equal(reparsed.blocks[1], previous.blocks[1]);
+  const last = reparsed.blocks[reparsed.blocks.length - 1];
+  assert.equal(last.hash, previous.blocks[previous.blocks.length - 1].hash);
+  assert.deepEqual([last.index, last.startLine], [10, 11]);
+});
+
+test('merges consecutive edits into one edited region', () => {
+  const original = INCREMENTAL_SAMPLE;
+  // Insert two lines after the title, then replace the list (now two lines further down) with one line
+  const first = replaceLines(original, 1, 1, 'Intro text\nmore\nlines');
+  const second = replaceLines(first, 6, 8, '* merged');
+  let edited = addLineEdit(undefined, 1, 1, 2);
+  edited = addLineEdit(edited, 6, 8, 0);
+  assert.deepEqual(edited, { start: 1, oldEnd: 6, newEnd: 6 });
+  assert.deepEqual(
+    reparseMarkdownBlocks(parseMarkdownToBlocks(original), second, edited),
+    parseMarkdownToBlocks(second)
+  );
+  assert.deepEqual(addLineEdit({ start: 10, oldEnd: 12, newEnd: 15 }, 3, 4, 2), { start: 3, oldEnd: 12, newEnd: 16 });
+});
+
+test('parses CRLF documents to the same blocks and hashes as LF documents', () => {
+  const lf = '# Title\n\n```js\ncode()\n```\n\nText';
+  const crlf = lf.replace(/\n/g, '\r\n');
+  const parsed = parseMarkdownToBlocks(crlf);
+  assert.deepEqual(parsed.blocks, parseMarkdownToBlocks(lf).blocks);
+  assert.equal(parsed.documentHash, parseMarkdownToBlocks(lf).documentHash);
+  assert.equal(parsed.lineEnding, '\r\n');
+  assert.equal(parseMarkdownToBlocks(lf).lineEnding, undefined);
+  assert.deepEqual(
+    reparseMarkdownBlocks(parsed, crlf.replace('Text', 'New\r\ntext'), { start: 6, oldEnd: 6, newEnd: 7 }),
+    parseMarkdownToBlocks(crlf.replace('Text', 'New\r\ntext'))
+  );
+});
+
+test('detects the most common line ending and restores it', () => {
+  assert.equal(detectLineEnding('a\r\nb\r\nc\nd'), '\r\n');
+  assert.equal(detectLineEnding('a\r\nb\nc\nd'), '\n');
+  assert.equal(restoreLineEndings('a\nb\r\nc', '\r\n'), 'a\r\nb\r\nc');
+  assert.equal(restoreLineEndings('a\r\nb\rc'), 'a\nb\nc');
+});
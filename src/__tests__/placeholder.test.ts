@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { maskMarkdown, unmaskMarkdown, isUnmaskValid, createStreamingUnmasker } from '../placeholder';
+
+const SOURCE = [
+  'Run `npm install` and see [the docs](https://example.com/docs "Docs") or <https://example.com>.',
+  'Inline math $a^2$ and <kbd>Ctrl</kbd> keys, footnote[^1], [reference][ref] &amp; &#169;.',
+  '',
+  '```js',
+  'const url = `https://example.com`;',
+  '```',
+].join('\n');
+
+test('masks inline code, links, HTML, entities and math but not fenced code', () => {
+  const masked = maskMarkdown(SOURCE);
+  assert.ok(!masked.text.includes('npm install'));
+  assert.ok(!masked.text.includes('https://example.com/docs'));
+  assert.ok(!masked.text.includes('<kbd>'));
+  assert.ok(!masked.text.includes('$a^2$'));
+  assert.ok(!masked.text.includes('&amp;') && !masked.text.includes('&#169;'));
+  assert.ok(masked.text.includes('[the docs]⟦'));
+  assert.ok(masked.text.includes('const url = `https://example.com`;'));
+});
+
+test('restores the original text', () => {
+  const masked = maskMarkdown(SOURCE);
+  const result = unmaskMarkdown(masked.text, masked.placeholders);
+  assert.ok(isUnmaskValid(result));
+  assert.equal(result.text, SOURCE);
+});
+
+test('reports lost and duplicated placeholders', () => {
+  const masked = maskMarkdown('Use `a` and `b`.');
+  const result = unmaskMarkdown('Use ⟦0⟧ and ⟦0⟧.', masked.placeholders);
+  assert.deepEqual(result.missing, ['⟦1⟧']);
+  assert.deepEqual(result.duplicated, ['⟦0⟧']);
+  assert.ok(!isUnmaskValid(result));
+});
+
+test('leaves content containing placeholder characters unmasked', () => {
+  const masked = maskMarkdown('Already ⟦0⟧ with `code`');
+  assert.equal(masked.text, 'Already ⟦0⟧ with `code`');
+  assert.equal(masked.placeholders.size, 0);
+});
+
+test('restores placeholders split across streamed fragments', () => {
+  const masked = maskMarkdown(SOURCE);
+  const unmasker = createStreamingUnmasker(masked.placeholders);
+  let output = '';
+  for (let i = 0; i < masked.text.length; i += 3) {
+    output += unmasker.push(masked.text.slice(i, i + 3));
+  }
+  output += unmasker.flush();
+  assert.equal(output, SOURCE);
+});
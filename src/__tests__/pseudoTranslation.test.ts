@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks, generateHash } from '../parser';
+import {
+  BlockSegment,
+  segmentBlock,
+  joinSegments,
+  formatNumberedSegments,
+  parseNumberedSegments,
+} from '../segments';
+import { maskMarkdown, unmaskMarkdown, isUnmaskValid } from '../placeholder';
+import { parseTable, formatTable, mapTableCells, getTableCellSegments } from '../table';
+import { parseFrontMatter, getTranslatableFields, getFrontMatterSegments, serializeFrontMatter } from '../frontMatter';
+import { segmentCodeBlock, joinCodeSegments } from '../codeComments';
+import { segmentMermaidBlock } from '../mermaid';
+import { segmentHtml, getHtmlAttributeSegments, translateHtmlAttributes } from '../html';
+import {
+  createSegmentPrompt,
+  createTableCellPrompt,
+  createFrontMatterPrompt,
+  createHtmlTextPrompt,
+  createCodeTextPrompt,
+} from '../prompts';
+import { extractMockSource, pseudoTranslate } from '../backends/pseudoTranslation';
+
+/**
+ * Send masked text through the mock model the way requestProtectedTranslation does
+ */
+function translateWithMock(content: string, buildPrompt: (text: string) => string) {
+  const masked = maskMarkdown(content);
+  const reply = pseudoTranslate(extractMockSource(buildPrompt(masked.text)));
+  return unmaskMarkdown(reply, masked.placeholders);
+}
+
+/**
+ * Send numbered segments through the mock model the way requestNumberedTranslations does
+ */
+function translateNumberedWithMock(segments: BlockSegment[], buildPrompt: (text: string) => string) {
+  const sources = segments.map((segment) => segment.content);
+  const result = translateWithMock(formatNumberedSegments(sources), buildPrompt);
+  assert.ok(isUnmaskValid(result));
+  const translated = parseNumberedSegments(result.text, sources);
+  assert.ok(translated.every((translation) => translation !== undefined));
+  return new Map(segments.map((segment, i) => [segment.hash, translated[i]!]));
+}
+
+test('pseudo-translates text and keeps code, placeholders and link targets', () => {
+  assert.equal(
+    pseudoTranslate('Run `npm test` and see [the guide](guide.md) ⟦0⟧.\n\n```sh\necho hi\n```'),
+    'RUN `npm test` AND SEE [THE GUIDE](guide.md) ⟦0⟧.\n\n```sh\necho hi\n```'
+  );
+});
+
+test('extracts the block to translate without the surrounding context', () => {
+  const prompt =
+    'Keep placeholder tokens such as ⟦0⟧ exactly as they are.\n\n' +
+    '[CONTEXT - Previous block (already translated)]:\nVORHER\n\n' +
+    '[TRANSLATE THIS BLOCK]:\nSome text\n\n' +
+    '[CONTEXT - Next block (original)]:\nNext';
+  assert.equal(extractMockSource(prompt), 'Some text');
+  assert.equal(extractMockSource('Translate this.\n\n[Content to translate]\n\n# Title'), '# Title');
+});
+
+test('retranslates a sentence through the mock without echoing the prompt', () => {
+  const [block] = parseMarkdownToBlocks('Install it first. Then run `npm test` and open [the log](log.md).').blocks;
+  const segmented = segmentBlock(block)!;
+  const segment = segmented.segments[1];
+  const buildPrompt = createSegmentPrompt('sentence', 'German', [], block.content, 'INSTALL IT FIRST. Then run.');
+
+  const result = translateWithMock(segment.content, buildPrompt);
+  assert.ok(isUnmaskValid(result));
+  assert.equal(result.text, 'THEN RUN `npm test` AND OPEN [THE LOG](log.md).');
+});
+
+test('translates table cells through the mock', () => {
+  const content = '| Name | Notes |\n| :--- | --- |\n| `id` | See [docs](a.md) |';
+  const table = parseTable(content)!;
+  const translations = translateNumberedWithMock(
+    getTableCellSegments(table),
+    createTableCellPrompt('German', [], content)
+  );
+  assert.equal(
+    formatTable(mapTableCells(table, (cell) => translations.get(generateHash(cell)) ?? cell)),
+    '| NAME | NOTES            |\n| :--- | ---------------- |\n| `id` | SEE [DOCS](a.md) |'
+  );
+});
+
+test('translates front matter values through the mock', () => {
+  const content = '---\ntitle: "Use `npm` here"\ndescription: A short guide\nslug: guide\n---';
+  const frontMatter = parseFrontMatter(content)!;
+  const fields = getTranslatableFields(frontMatter, ['title', 'description']);
+  const translations = translateNumberedWithMock(getFrontMatterSegments(fields), createFrontMatterPrompt('German', []));
+  assert.equal(
+    serializeFrontMatter(frontMatter, (field) =>
+      fields.includes(field) ? translations.get(generateHash(field.value)) : undefined
+    ),
+    '---\ntitle: "USE `npm` HERE"\ndescription: A SHORT GUIDE\nslug: guide\n---'
+  );
+});
+
+test('translates HTML text and attributes through the mock', () => {
+  const content =
+    '<p align="center">\n  <img src="logo.png" alt="The logo">\n' +
+    '  Read the <a href="guide.md">guide</a> &amp; more.\n</p>';
+  const segmented = segmentHtml(content);
+  const attributes = getHtmlAttributeSegments(content, ['alt']);
+  const translations = translateNumberedWithMock(
+    [...segmented.segments, ...attributes],
+    createHtmlTextPrompt('German', [], content)
+  );
+  assert.equal(
+    translateHtmlAttributes(joinSegments(segmented, translations), ['alt'], (value) =>
+      translations.get(generateHash(value))
+    ),
+    '<p align="center">\n  <img src="logo.png" alt="THE LOGO">\n' +
+      '  READ THE <a href="guide.md">GUIDE</a> &amp; MORE.\n</p>'
+  );
+});
+
+test('translates code comments through the mock', () => {
+  const content = '```ts\n// Load the `config` file\nconst config = load(); /* Cached */\n```';
+  const segmented = segmentCodeBlock(content)!;
+  const translations = translateNumberedWithMock(
+    segmented.segments,
+    createCodeTextPrompt('German', [], content, false)
+  );
+  assert.equal(
+    joinCodeSegments(segmented, translations),
+    '```ts\n// LOAD THE `config` FILE\nconst config = load(); /* CACHED */\n```'
+  );
+});
+
+test('translates Mermaid labels through the mock', () => {
+  const content = '```mermaid\nflowchart TD\n  A[Start here] -->|on `exit`| B(Done)\n```';
+  const segmented = segmentMermaidBlock(content)!;
+  const translations = translateNumberedWithMock(segmented.segments, createCodeTextPrompt('German', [], content, true));
+  assert.equal(
+    joinCodeSegments(segmented, translations),
+    '```mermaid\nflowchart TD\n  A[START HERE] -->|ON `exit`| B(DONE)\n```'
+  );
+});
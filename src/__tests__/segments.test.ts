@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks } from '../parser';
+import {
+  splitSentences,
+  segmentBlock,
+  joinSegments,
+  alignSegmentTranslations,
+  splitListItems,
+  diffListItems,
+  formatNumberedSegments,
+  parseNumberedSegments,
+} from '../segments';
+
+function sentences(text: string): string[] {
+  return splitSentences(text).map(({ sentence }) => sentence);
+}
+
+test('splits Latin and CJK sentences', () => {
+  assert.deepEqual(sentences('First one. Second one! Third?'), ['First one.', 'Second one!', 'Third?']);
+  assert.deepEqual(sentences('最初の文。次の文！最後？'), ['最初の文。', '次の文！', '最後？']);
+  assert.deepEqual(sentences('He said "stop." Then left.'), ['He said "stop."', 'Then left.']);
+});
+
+test('does not split abbreviations, numbers, code spans or link destinations', () => {
+  assert.deepEqual(sentences('Use e.g. this one. Version 1.2 is out.'), ['Use e.g. this one.', 'Version 1.2 is out.']);
+  assert.deepEqual(sentences('Run `a. B` and see [docs](./a. B.md) now.'), ['Run `a. B` and see [docs](./a. B.md) now.']);
+});
+
+test('rebuilds the source from its segments', () => {
+  const samples = [
+    'One sentence. Another one.\nA third line.  ',
+    '- First item. More text.\n- Second item.\n\n  1. Nested. Item.\n- [ ] Task one. Task two.',
+    '- A. B.\n  ```\n  - code\n  ```\n- C.',
+  ];
+  for (const sample of samples) {
+    const segmented = segmentBlock(parseMarkdownToBlocks(sample).blocks[0]);
+    assert.ok(segmented);
+    assert.equal(joinSegments(segmented, new Map()), sample);
+  }
+});
+
+test('does not segment single sentences, single items or other blocks', () => {
+  assert.equal(segmentBlock({ type: 'paragraph', content: 'Only one sentence.' }), undefined);
+  assert.equal(segmentBlock({ type: 'list', content: '- A. B.\n  More text.' }), undefined);
+  assert.equal(segmentBlock({ type: 'heading', content: '# A. B.' }), undefined);
+});
+
+test('splits lists into items with their nesting depth', () => {
+  const items = splitListItems('- One\n  continued\n\n  1. Nested\n     ```\n     - not an item\n     ```\n- [x] Two');
+  assert.deepEqual(
+    items.map(({ marker, text, depth }) => [marker, text, depth]),
+    [
+      ['- ', 'One\n  continued', 0],
+      ['  1. ', 'Nested\n     ```\n     - not an item\n     ```', 1],
+      ['- [x] ', 'Two', 0],
+    ]
+  );
+  assert.equal(items[0].separator, '\n\n');
+});
+
+test('segments lists per item', () => {
+  const segmented = segmentBlock({ type: 'list', content: '- First. Second.\n- Third.' })!;
+  assert.deepEqual(
+    segmented.segments.map((segment) => segment.content),
+    ['First. Second.', 'Third.']
+  );
+});
+
+test('diffs list items', () => {
+  assert.deepEqual(diffListItems('- a\n- b\n- c', '- a\n- B\n- c\n- d'), [
+    { type: 'modified', oldIndex: 1, newIndex: 1 },
+    { type: 'added', newIndex: 3 },
+  ]);
+  assert.deepEqual(diffListItems('- a\n- b\n- c', '- x\n- a\n- c'), [
+    { type: 'added', newIndex: 0 },
+    { type: 'removed', oldIndex: 1 },
+  ]);
+});
+
+test('aligns translated sentences and joins CJK sentences without spaces', () => {
+  const block = parseMarkdownToBlocks('Hello there. How are you?').blocks[0];
+  const translations = alignSegmentTranslations([block], new Map([[block.hash, 'こんにちは。お元気ですか？']]));
+  assert.equal(translations.size, 2);
+
+  const segmented = segmentBlock(block)!;
+  assert.equal(translations.get(segmented.segments[1].hash), 'お元気ですか？');
+  assert.equal(joinSegments(segmented, translations), 'こんにちは。お元気ですか？');
+});
+
+test('skips blocks whose translation has a different number of sentences', () => {
+  const block = parseMarkdownToBlocks('Hello there. How are you?').blocks[0];
+  assert.equal(alignSegmentTranslations([block], new Map([[block.hash, 'Hallo, wie geht es?']])).size, 0);
+});
+
+test('reads numbered segments back and reports missing ones', () => {
+  assert.equal(formatNumberedSegments(['a', 'b']), '[1] a\n[2] b');
+  assert.deepEqual(
+    parseNumberedSegments('[1] x\n[3] z\ncontinued\n[4] out of range', ['a', 'b', 'c\nd']),
+    ['x', undefined, 'z\ncontinued']
+  );
+  assert.deepEqual(parseNumberedSegments('[1] x\nnoise\n[3] z', ['a', 'b', 'c']), ['x', undefined, 'z']);
+});
+
+test('ignores a code fence and notes around numbered segments', () => {
+  assert.deepEqual(parseNumberedSegments('```\n[1] Name\n[2] Anzahl\n```', ['Name', 'Count']), ['Name', 'Anzahl']);
+  assert.deepEqual(
+    parseNumberedSegments('[1] Name\n[2] Anzahl\n\nNote: kept formatting.', ['Name', 'Count']),
+    ['Name', 'Anzahl']
+  );
+});
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TranslationSession } from '../session';
+import { TranslationModel } from '../types/backend';
+
+/** Sessions only store the model, so tests never call it */
+const model = {} as TranslationModel;
+
+function createSession(content: string): TranslationSession {
+  const session = new TranslationSession();
+  session.initSession(content, 'translation', [], model);
+  return session;
+}
+
+test('returns null without a session or without changes', () => {
+  assert.equal(new TranslationSession().detectBlockChanges('# A'), null);
+  assert.equal(createSession('# A\n\nText').detectBlockChanges('# A\n\nText'), null);
+});
+
+test('detects a modified block', () => {
+  const diff = createSession('# A\n\nOld text\n\n# B').detectBlockChanges('# A\n\nNew text\n\n# B');
+  assert.ok(diff);
+  assert.equal(diff.changes.length, 1);
+  assert.equal(diff.changes[0].type, 'modified');
+  assert.equal(diff.changes[0].oldIndex, 2);
+  assert.equal(diff.changes[0].newIndex, 2);
+  assert.equal(diff.changes[0].newBlock?.content, 'New text');
+  assert.equal(diff.summary, '1 block modified');
+});
+
+test('reports changed sentences of modified paragraphs', () => {
+  const diff = createSession('# A\n\nOne. Two. Three.').detectBlockChanges('# A\n\nOne. Two changed. Three.');
+  assert.ok(diff);
+  assert.equal(diff.changes[0].changedSegments, 1);
+  assert.equal(diff.summary, '1 block modified (1 sentence changed)');
+});
+
+test('reports changed items of modified lists', () => {
+  const diff = createSession('# A\n\n- One\n- Two\n- Three').detectBlockChanges('# A\n\n- One\n- Two!\n- Three\n- Four');
+  assert.ok(diff);
+  assert.deepEqual(diff.changes[0].itemChanges, [
+    { type: 'modified', oldIndex: 1, newIndex: 1 },
+    { type: 'added', newIndex: 3 },
+  ]);
+  assert.equal(diff.summary, '1 block modified (1 item added, 1 item modified)');
+});
+
+test('detects added and removed blocks', () => {
+  const added = createSession('# A\n\nText').detectBlockChanges('# A\n\nText\n\n## New section');
+  assert.ok(added);
+  assert.deepEqual(
+    added.changes.map((change) => [change.type, change.newBlock?.content]),
+    [
+      ['added', ''],
+      ['added', '## New section'],
+    ]
+  );
+
+  const removed = createSession('# A\n\nText\n\n```\ncode\n```').detectBlockChanges('# A\n\nText');
+  assert.ok(removed);
+  assert.deepEqual(
+    removed.changes.map((change) => [change.type, change.oldBlock?.type]),
+    [
+      ['removed', 'blank_lines'],
+      ['removed', 'code_block'],
+    ]
+  );
+});
+
+test('matches moved blocks by hash', () => {
+  const diff = createSession('First\n\nSecond\n\nThird').detectBlockChanges('Third\n\nFirst\n\nSecond');
+  assert.ok(diff);
+  assert.equal(diff.changes.length, 0);
+  assert.equal(diff.summary, 'blocks moved');
+  const moved = diff.unchangedBlocks.find((entry) => entry.block.content === 'Third');
+  assert.deepEqual([moved?.oldIndex, moved?.newIndex], [4, 0]);
+});
+
+test('matches duplicated blocks to the closest old block', () => {
+  const diff = createSession('Same\n\nOther').detectBlockChanges('Same\n\nOther\n\nSame');
+  assert.ok(diff);
+  const same = diff.unchangedBlocks.filter((entry) => entry.block.content === 'Same');
+  assert.deepEqual(
+    same.map((entry) => [entry.oldIndex, entry.newIndex]),
+    [[0, 0]]
+  );
+  assert.deepEqual(
+    diff.changes.map((change) => [change.type, change.newIndex]),
+    [
+      ['added', 3],
+      ['added', 4],
+    ]
+  );
+});
+
+test('does not pair distant blocks of the same type as modified', () => {
+  const diff = createSession('# A\n\nB\n\nC\n\nOld').detectBlockChanges('New\n\n# A\n\nB\n\nC');
+  assert.ok(diff);
+  const types = diff.changes.map((change) => change.type).sort();
+  assert.deepEqual(types, ['added', 'removed']);
+});
+
+test('keeps block translations when the session is updated', () => {
+  const session = createSession('A');
+  session.updateSession('A\n\nB', 'a\n\nb', [], undefined, new Map([['h1', 'a']]), 0);
+  session.updateSession('A\n\nB', 'a\n\nb', [], undefined, new Map([['h2', 'b']]), 2);
+  assert.deepEqual([...(session.getBlockTranslations() ?? [])], [
+    ['h1', 'a'],
+    ['h2', 'b'],
+  ]);
+  assert.equal(session.getTranslatedUpToBlockIndex(), 2);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  parseTable,
+  formatTable,
+  mapTableCells,
+  getTableCellSegments,
+} from '../table';
+
+test('parses header, alignments and rows with escaped pipes', () => {
+  const table = parseTable('| Name | Value |\n|:-----|------:|\n| a \\| b | 1 |\n| only |');
+  assert.ok(table);
+  assert.deepEqual(table.header, ['Name', 'Value']);
+  assert.deepEqual(table.alignments, ['left', 'right']);
+  assert.deepEqual(table.rows, [
+    ['a \\| b', '1'],
+    ['only', ''],
+  ]);
+});
+
+test('rejects content without a matching delimiter row', () => {
+  assert.equal(parseTable('| a | b |\n| - |'), undefined);
+  assert.equal(parseTable('| a | b |'), undefined);
+});
+
+test('rebuilds column padding and keeps alignments', () => {
+  const table = parseTable('|a|b|c|\n|:-:|--:|---|\n|x|y|z|')!;
+  const translated = mapTableCells(table, (cell) => ({ a: '名前', x: 'long text' })[cell] ?? cell);
+  assert.equal(
+    formatTable(translated),
+    ['|   名前    |   b | c   |', '| :-------: | --: | --- |', '| long text |   y | z   |'].join('\n')
+  );
+});
+
+test('keeps translated cells on one line and escapes pipes', () => {
+  const table = parseTable('| a | b |\n| - | - |')!;
+  const translated = mapTableCells(table, (cell) => (cell === 'a' ? 'x | y\nz' : cell));
+  assert.deepEqual(translated.header, ['x \\| y z', 'b']);
+  assert.equal(parseTable(formatTable(translated))!.header.length, 2);
+});
+
+test('collects translatable cells once', () => {
+  const table = parseTable('| Name | Count |\n| --- | --- |\n| Apple | 3 |\n| Name | 4 |')!;
+  assert.deepEqual(
+    getTableCellSegments(table).map((cell) => cell.content),
+    ['Name', 'Count', 'Apple']
+  );
+});
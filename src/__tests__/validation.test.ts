@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseMarkdownToBlocks } from '../parser';
+import { alignBlockTranslations, validateBlockTranslation } from '../validation';
+
+function firstBlock(content: string) {
+  return parseMarkdownToBlocks(content).blocks[0];
+}
+
+test('accepts translations that keep the structure', () => {
+  const pairs = [
+    ['## Title', '## Titel'],
+    ['Title\n=====', 'Titel\n==='],
+    ['- a [link](x)\n- b', '- A [Link](x)\n- B'],
+    ['| a | b |\n|---|---|\n| 1 | 2 |', '| A | B |\n|---|---|\n| 1 | 2 |'],
+    ['```\ncode\n```', '```\ncode\n```'],
+    ['[^1]: A note', '[^1]: Eine Notiz'],
+  ];
+  for (const [source, translation] of pairs) {
+    assert.equal(validateBlockTranslation(firstBlock(source), firstBlock(translation)), undefined);
+  }
+});
+
+test('rejects structural changes', () => {
+  const pairs = [
+    ['## Title', '### Titel'],
+    ['## Title', 'Titel'],
+    ['Title\n=====', 'Titel\n-----'],
+    ['- a\n- b', '- A und B'],
+    ['| a | b |\n|---|---|\n| 1 | 2 |', '| A |\n|---|\n| 1 |'],
+    ['```\ncode\n```', '```\nKode\n```'],
+    ['See [docs](x).', 'Siehe Doku.'],
+    ['> ```\n> code\n> ```', '> ```\n> Kode\n> ```'],
+    ['[^note]: Text', '[^Notiz]: Text'],
+  ];
+  for (const [source, translation] of pairs) {
+    assert.ok(validateBlockTranslation(firstBlock(source), firstBlock(translation)), translation);
+  }
+});
+
+test('aligns translations ignoring extra blank lines', () => {
+  const source = parseMarkdownToBlocks('# A\n\nText\n\n```\ncode\n```');
+  const alignment = alignBlockTranslations(source.blocks, parseMarkdownToBlocks('# A\n\n\n\nTEXT\n\n```\nchanged\n```\n'));
+  assert.deepEqual(alignment.failures, []);
+  assert.equal(alignment.translations.get(source.blocks[2].hash), 'TEXT');
+  // Code blocks are restored from the source
+  assert.equal(alignment.translations.get(source.blocks[4].hash), '```\ncode\n```');
+});
+
+test('fails every block when the model merges blocks', () => {
+  const source = parseMarkdownToBlocks('One\n\nTwo');
+  const alignment = alignBlockTranslations(source.blocks, parseMarkdownToBlocks('Eins Zwei'));
+  assert.deepEqual(
+    alignment.failures.map((failure) => failure.block.content),
+    ['One', 'Two']
+  );
+});
+
+test('restores math and link reference definitions from the source', () => {
+  const source = parseMarkdownToBlocks('$$\na + b\n$$\n\n[id]: https://example.com "Title"');
+  const alignment = alignBlockTranslations(
+    source.blocks,
+    parseMarkdownToBlocks('$$\na + b = c\n$$\n\n[ID]: https://example.com "Titel"')
+  );
+  assert.deepEqual(alignment.failures, []);
+  assert.equal(alignment.translations.get(source.blocks[0].hash), source.blocks[0].content);
+  assert.equal(alignment.translations.get(source.blocks[2].hash), source.blocks[2].content);
+});
@@ -0,0 +1,156 @@
+/**
+ * Heading anchors of translated documents
+ * Translating a heading changes its GitHub-style slug, so #fragment links to it break. Links can
+ * be rewritten to the new slugs, or translated headings can keep their original ID with an
+ * explicit anchor (the `headingAnchors` setting).
+ */
+
+import { isPassthroughBlock } from './blocks';
+import { MarkdownBlock, ParsedDocument } from './types/block';
+
+/**
+ * How heading anchors are kept working in translations
+ * - rewrite: #fragment links are rewritten to the slugs of the translated headings
+ * - anchor: translated headings get an <a id="..."> anchor with the original slug
+ * - off: links and headings are left as translated
+ */
+export type HeadingAnchorMode = 'rewrite' | 'anchor' | 'off';
+
+/**
+ * Explicit heading ID written as {#id} at the end of the heading
+ */
+const EXPLICIT_ID = /[ \t]*\{#([^\s}]+)\}[ \t]*$/;
+
+/**
+ * Get the text of an ATX or setext heading, and its explicit {#id} if it has one
+ */
+export function getHeadingText(content: string): { text: string; id?: string } {
+  const lines = content.split('\n');
+  const atx = lines[0].match(/^ {0,3}#{1,6}(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/);
+  const text = atx ? (atx[1] ?? '') : lines.slice(0, -1).map((line) => line.trim()).join(' ');
+  const id = text.match(EXPLICIT_ID)?.[1];
+  return id ? { text: text.replace(EXPLICIT_ID, ''), id } : { text };
+}
+
+/**
+ * Convert heading text to a GitHub-style slug
+ * Markup is removed, the text is lowercased, punctuation is dropped and spaces become hyphens.
+ */
+export function slugify(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])?/g, '$1')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:#\d+|#x[\da-f]+|\w+);/gi, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * Create a slugger that numbers repeated slugs like GitHub (setup, setup-1, setup-2, ...)
+ */
+export function createSlugger(): (text: string) => string {
+  const occurrences = new Map<string, number>();
+  return (text) => {
+    const base = slugify(text);
+    let slug = base;
+    while (occurrences.has(slug)) {
+      const count = occurrences.get(base)! + 1;
+      occurrences.set(base, count);
+      slug = `${base}-${count}`;
+    }
+    occurrences.set(slug, 0);
+    return slug;
+  };
+}
+
+/**
+ * Rewrite #fragment links (inline links, reference definitions and HTML href attributes)
+ * Code spans are left alone.
+ * @param slugs - Source slug -> translated slug
+ */
+export function rewriteFragmentLinks(content: string, slugs: Map<string, string>): string {
+  const pattern = /(`+)[\s\S]*?\1|(\]\([ \t]*<?#|href=["']#|^ {0,3}\[[^\]]+\]:[ \t]*<?#)([^\s)>"']+)/gm;
+  return content.replace(pattern, (match: string, _code: string, prefix: string | undefined, fragment: string) => {
+    if (!prefix) {
+      return match;
+    }
+    let decoded = fragment;
+    try {
+      decoded = decodeURIComponent(fragment);
+    } catch {
+      // Malformed escapes are looked up as written
+    }
+    const slug = slugs.get(decoded);
+    if (slug === undefined) {
+      return match;
+    }
+    return prefix + (decoded !== fragment ? encodeURIComponent(slug) : slug);
+  });
+}
+
+/**
+ * Add an anchor with the given ID before the text of a heading (unless it already has it)
+ */
+export function addHeadingAnchor(content: string, id: string): string {
+  const anchor = `<a id="${id}"></a>`;
+  if (content.includes(anchor)) {
+    return content;
+  }
+  const atx = content.match(/^( {0,3}#{1,6}[ \t]+)/);
+  if (atx) {
+    return atx[1] + anchor + content.slice(atx[1].length);
+  }
+  const indent = content.match(/^[ \t]*/)![0];
+  return indent + anchor + content.slice(indent.length);
+}
+
+/**
+ * Build a function that fixes heading anchors in block translations while merging them
+ * Source and translated slugs are computed from the heading blocks of the document.
+ * @returns The transform, or undefined if nothing needs to change
+ */
+export function getHeadingAnchorTransform(
+  document: ParsedDocument,
+  translations: Map<string, string>,
+  mode: HeadingAnchorMode
+): ((block: MarkdownBlock, translation: string) => string) | undefined {
+  if (mode === 'off') {
+    return undefined;
+  }
+
+  const sourceSlugger = createSlugger();
+  const targetSlugger = createSlugger();
+  const slugs = new Map<string, string>();
+  const anchors = new Map<number, string>();
+  for (const block of document.blocks) {
+    if (block.type !== 'heading') {
+      continue;
+    }
+    const source = getHeadingText(block.content);
+    const target = getHeadingText(translations.get(block.hash) ?? block.content);
+    const sourceSlug = source.id ?? sourceSlugger(source.text);
+    const targetSlug = target.id ?? targetSlugger(target.text);
+    if (sourceSlug === targetSlug || sourceSlug === '') {
+      continue;
+    }
+    if (!slugs.has(sourceSlug)) {
+      slugs.set(sourceSlug, targetSlug);
+    }
+    anchors.set(block.index, sourceSlug);
+  }
+  if (slugs.size === 0) {
+    return undefined;
+  }
+
+  if (mode === 'anchor') {
+    return (block, translation) => {
+      const id = anchors.get(block.index);
+      return id === undefined ? translation : addHeadingAnchor(translation, id);
+    };
+  }
+  return (block, translation) =>
+    isPassthroughBlock(block) && block.type !== 'link_reference_definition'
+      ? translation
+      : rewriteFragmentLinks(translation, slugs);
+}
@@ -0,0 +1,70 @@
+/**
+ * Registry of translation backends
+ */
+
+import { TranslationBackend, TranslationModel } from '../types/backend';
+import { vscodeLmBackend } from './vscodeLm';
+import { openAiCompatibleBackend } from './openAiCompatible';
+import { mockBackend } from './mock';
+import { logError } from '../log';
+
+const backends: TranslationBackend[] = [vscodeLmBackend, openAiCompatibleBackend, mockBackend];
+
+/**
+ * List the models of one backend, or none if it fails (e.g. an unreachable server)
+ */
+async function listBackendModels(backend: TranslationBackend): Promise<TranslationModel[]> {
+  try {
+    return await backend.listModels();
+  } catch (error) {
+    logError(`Failed to list ${backend.label} models`, error);
+    return [];
+  }
+}
+
+/**
+ * List the models of every backend
+ * A backend that fails (e.g. an unreachable server) is skipped.
+ */
+export async function listModels(): Promise<TranslationModel[]> {
+  const results = await Promise.all(backends.map(listBackendModels));
+  return results.flat();
+}
+
+/**
+ * Find a model in the backend its ID belongs to (vscode.lm model IDs have no backend prefix)
+ */
+async function findModel(modelId: string): Promise<TranslationModel | undefined> {
+  const backend = backends.find((b) => modelId.startsWith(`${b.id}:`)) ?? vscodeLmBackend;
+  if (!backend.getModel) {
+    return (await listBackendModels(backend)).find((m) => m.id === modelId);
+  }
+  try {
+    return backend.getModel(modelId);
+  } catch (error) {
+    logError(`Failed to get ${backend.label} model ${modelId}`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Get model by ID or return the default model
+ * Only the backends needed are asked, so a translation doesn't wait for every server to list its models.
+ */
+export async function getModel(modelId?: string): Promise<TranslationModel | null> {
+  // If modelId is specified, try to find it
+  if (modelId) {
+    const selectedModel = await findModel(modelId);
+    if (selectedModel) {
+      return selectedModel;
+    }
+  }
+
+  // Fall back to first copilot model or any available model
+  const copilotModel = (await listBackendModels(vscodeLmBackend)).find((m) => m.vendor === 'copilot');
+  if (copilotModel) {
+    return copilotModel;
+  }
+  const allModels = await listModels();
+  return allModels[0] ?? null;
+}
@@ -0,0 +1,118 @@
+/**
+ * Offline mock backend for development (enabled with `markdownTranslate.debugMode`)
+ * Produces deterministic pseudo-translations that keep the Markdown structure, so chunking,
+ * streaming, cancellation and incremental updates can be exercised without a real model.
+ */
+
+import * as vscode from 'vscode';
+import { ChatMessage, TranslationBackend, TranslationModel } from '../types/backend';
+import { extractMockSource, pseudoTranslate } from './pseudoTranslation';
+
+/**
+ * Failures the mock model can inject
+ */
+type MockFailure =
+  | 'none'
+  | 'blocked'
+  | 'noPermissions'
+  | 'notFound'
+  | 'truncated'
+  | 'lostPlaceholders'
+  | 'mergedBlocks';
+
+interface MockSettings {
+  latencyMs: number;
+  fragmentSize: number;
+  failure: MockFailure;
+  failureEvery: number;
+}
+
+function getMockSettings(): MockSettings {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  return {
+    latencyMs: Math.max(0, config.get<number>('mockLatencyMs', 20)),
+    fragmentSize: Math.max(1, config.get<number>('mockFragmentSize', 16)),
+    failure: config.get<MockFailure>('mockFailure', 'none'),
+    failureEvery: Math.max(1, config.get<number>('mockFailureEvery', 1)),
+  };
+}
+
+/**
+ * Apply an output-shaping failure to a pseudo-translation
+ */
+function applyOutputFailure(output: string, failure: MockFailure): string {
+  switch (failure) {
+    case 'truncated':
+      return output.slice(0, Math.floor(output.length / 2));
+    case 'lostPlaceholders':
+      return output.replace(/⟦\d+⟧/g, '');
+    case 'mergedBlocks':
+      return output.replace(/\n{2,}(?=\S)/g, ' ');
+    default:
+      return output;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function* streamFragments(
+  text: string,
+  settings: MockSettings,
+  token: vscode.CancellationToken
+): AsyncIterable<string> {
+  for (let i = 0; i < text.length; i += settings.fragmentSize) {
+    if (settings.latencyMs > 0) {
+      await delay(settings.latencyMs);
+    }
+    if (token.isCancellationRequested) {
+      return;
+    }
+    yield text.slice(i, i + settings.fragmentSize);
+  }
+}
+
+/** Number of requests sent to the mock model (drives `mockFailureEvery`) */
+let requestCount = 0;
+
+function createMockModel(): TranslationModel {
+  return {
+    id: `${mockBackend.id}:pseudo`,
+    name: 'Mock (pseudo-translation)',
+    vendor: 'mock',
+    family: 'mock',
+    maxInputTokens: 100000,
+    backend: mockBackend,
+
+    async sendRequest(messages: ChatMessage[], token: vscode.CancellationToken): Promise<AsyncIterable<string>> {
+      const settings = getMockSettings();
+      requestCount++;
+      const failure =
+        settings.failure !== 'none' && requestCount % settings.failureEvery === 0 ? settings.failure : 'none';
+
+      switch (failure) {
+        case 'blocked':
+          throw vscode.LanguageModelError.Blocked('Mock model: request blocked');
+        case 'noPermissions':
+          throw vscode.LanguageModelError.NoPermissions('Mock model: no permissions');
+        case 'notFound':
+          throw vscode.LanguageModelError.NotFound('Mock model: not found');
+      }
+
+      const prompt = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+      const output = applyOutputFailure(pseudoTranslate(extractMockSource(prompt)), failure);
+      return streamFragments(output, settings, token);
+    },
+  };
+}
+
+export const mockBackend: TranslationBackend = {
+  id: 'mock',
+  label: 'Mock',
+
+  async listModels(): Promise<TranslationModel[]> {
+    const config = vscode.workspace.getConfiguration('markdownTranslate');
+    return config.get<boolean>('debugMode', false) ? [createMockModel()] : [];
+  },
+};
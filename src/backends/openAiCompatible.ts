@@ -0,0 +1,195 @@
+/**
+ * Translation backend for OpenAI-compatible HTTP endpoints (llama.cpp server, Ollama, vLLM, ...)
+ */
+
+import * as vscode from 'vscode';
+import { ChatMessage, TranslationBackend, TranslationModel } from '../types/backend';
+
+/**
+ * Timeout for listing models, so an unreachable server doesn't block opening the preview
+ */
+const LIST_MODELS_TIMEOUT_MS = 5000;
+
+interface EndpointSettings {
+  baseUrl: string;
+  apiKey: string;
+  models: string[];
+  maxInputTokens: number;
+}
+
+function getEndpointSettings(): EndpointSettings {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  return {
+    baseUrl: config.get<string>('openAiBaseUrl', '').trim().replace(/\/+$/, ''),
+    apiKey: config.get<string>('openAiApiKey', ''),
+    models: config.get<string[]>('openAiModels', []),
+    maxInputTokens: config.get<number>('openAiMaxInputTokens', 8192),
+  };
+}
+
+function getHeaders(settings: EndpointSettings): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) {
+    headers.Authorization = `Bearer ${settings.apiKey}`;
+  }
+  return headers;
+}
+
+/**
+ * Throw a descriptive error for a failed HTTP response
+ */
+async function throwResponseError(response: Response): Promise<never> {
+  let detail = '';
+  try {
+    detail = (await response.text()).trim().slice(0, 200);
+  } catch {
+    // Ignore unreadable bodies
+  }
+  throw new Error(
+    `OpenAI-compatible server returned ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`
+  );
+}
+
+/**
+ * Ask the server which models it serves
+ */
+async function fetchModelNames(settings: EndpointSettings): Promise<string[]> {
+  const response = await fetch(`${settings.baseUrl}/models`, {
+    headers: getHeaders(settings),
+    signal: AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    await throwResponseError(response);
+  }
+  const body = (await response.json()) as { data?: Array<{ id?: unknown }> };
+  return (body.data ?? []).map((model) => model.id).filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * Stream the content deltas of a chat completion response (server-sent events)
+ */
+async function* readCompletionStream(
+  response: Response,
+  token: vscode.CancellationToken
+): AsyncIterable<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (!token.isCancellationRequested) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim().match(/^data:\s*(.*)$/)?.[1];
+        if (!data) {
+          continue;
+        }
+        if (data === '[DONE]') {
+          return;
+        }
+
+        const chunk = JSON.parse(data) as {
+          choices?: Array<{ delta?: { content?: string | null } }>;
+          error?: { message?: string };
+        };
+        if (chunk.error) {
+          throw new Error(`OpenAI-compatible server error: ${chunk.error.message ?? 'unknown error'}`);
+        }
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+    }
+  } catch (error) {
+    // Aborting the request on cancellation just ends the stream
+    if (token.isCancellationRequested) {
+      return;
+    }
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function createModel(name: string, settings: EndpointSettings): TranslationModel {
+  return {
+    id: `${openAiCompatibleBackend.id}:${name}`,
+    name,
+    vendor: new URL(settings.baseUrl).host,
+    family: name,
+    maxInputTokens: settings.maxInputTokens,
+    backend: openAiCompatibleBackend,
+    async sendRequest(messages: ChatMessage[], token: vscode.CancellationToken) {
+      const controller = new AbortController();
+      const cancellation = token.onCancellationRequested(() => controller.abort());
+
+      try {
+        const response = await fetch(`${settings.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: getHeaders(settings),
+          body: JSON.stringify({ model: name, messages, stream: true }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          await throwResponseError(response);
+        }
+
+        const stream = readCompletionStream(response, token);
+        return (async function* () {
+          try {
+            yield* stream;
+          } finally {
+            cancellation.dispose();
+          }
+        })();
+      } catch (error) {
+        cancellation.dispose();
+        // Aborting the request on cancellation ends it before the response arrives
+        if (token.isCancellationRequested) {
+          return (async function* () {})();
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+export const openAiCompatibleBackend: TranslationBackend = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+
+  async listModels(): Promise<TranslationModel[]> {
+    const settings = getEndpointSettings();
+    if (!settings.baseUrl) {
+      return [];
+    }
+
+    const names = settings.models.length > 0 ? settings.models : await fetchModelNames(settings);
+    return names.map((name) => createModel(name, settings));
+  },
+
+  getModel(id: string): TranslationModel | undefined {
+    const settings = getEndpointSettings();
+    const prefix = `${openAiCompatibleBackend.id}:`;
+    const name = id.slice(prefix.length);
+    if (!settings.baseUrl || !id.startsWith(prefix)) {
+      return undefined;
+    }
+    if (settings.models.length > 0 && !settings.models.includes(name)) {
+      return undefined;
+    }
+    return createModel(name, settings);
+  },
+};
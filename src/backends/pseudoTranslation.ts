@@ -0,0 +1,59 @@
+/**
+ * Pseudo-translation used by the mock backend
+ * Kept free of the vscode API so the prompt round trip can be unit tested.
+ */
+
+/**
+ * Spans kept unchanged by the pseudo-translation: placeholders, code spans, entities and URLs
+ */
+const PROTECTED_SPAN_PATTERN = /(⟦\d+⟧|`+[^`]*`+|&#?\w+;|<[^<>\n]*>|\]\([^)\n]*\)|https?:\/\/\S+)/;
+
+/**
+ * Marker in front of the text to translate: `[TRANSLATE THIS BLOCK]:`, `[TRANSLATE THESE CELLS]:`, ...
+ */
+const TRANSLATE_MARKER_PATTERN = /\[TRANSLATE [A-Z ]+\]:\n/g;
+
+/**
+ * Extract the text to translate from a translation prompt
+ */
+export function extractMockSource(prompt: string): string {
+  const marker = [...prompt.matchAll(TRANSLATE_MARKER_PATTERN)].pop();
+  if (marker) {
+    const text = prompt.slice(marker.index! + marker[0].length);
+    const contextStart = text.indexOf('\n\n[CONTEXT - Next block (original)]:');
+    return contextStart === -1 ? text : text.slice(0, contextStart);
+  }
+
+  const contentMarker = '[Content to translate]\n\n';
+  const contentStart = prompt.lastIndexOf(contentMarker);
+  return contentStart === -1 ? prompt : prompt.slice(contentStart + contentMarker.length);
+}
+
+/**
+ * Pseudo-translate Markdown: uppercase the text, leave code and protected spans untouched
+ */
+export function pseudoTranslate(content: string): string {
+  let fence: string | null = null;
+
+  return content
+    .split('\n')
+    .map((line) => {
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fence) {
+        if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+          fence = null;
+        }
+        return line;
+      }
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        return line;
+      }
+
+      return line
+        .split(PROTECTED_SPAN_PATTERN)
+        .map((part, i) => (i % 2 === 1 ? part : part.toUpperCase()))
+        .join('');
+    })
+    .join('\n');
+}
@@ -0,0 +1,39 @@
+/**
+ * Translation backend using the VS Code Language Model API (GitHub Copilot and other providers)
+ */
+
+import * as vscode from 'vscode';
+import { ChatMessage, TranslationBackend, TranslationModel } from '../types/backend';
+
+/**
+ * Convert backend-neutral messages to VS Code chat messages
+ */
+function toLanguageModelMessages(messages: ChatMessage[]): vscode.LanguageModelChatMessage[] {
+  return messages.map((message) =>
+    message.role === 'assistant'
+      ? vscode.LanguageModelChatMessage.Assistant(message.content)
+      : vscode.LanguageModelChatMessage.User(message.content)
+  );
+}
+
+export const vscodeLmBackend: TranslationBackend = {
+  id: 'vscode-lm',
+  label: 'VS Code',
+
+  async listModels(): Promise<TranslationModel[]> {
+    const models = await vscode.lm.selectChatModels({});
+    return models.map((model) => ({
+      // Keep plain vscode.lm IDs so existing modelId settings stay valid
+      id: model.id,
+      name: model.name,
+      vendor: model.vendor,
+      family: model.family,
+      maxInputTokens: model.maxInputTokens,
+      backend: vscodeLmBackend,
+      async sendRequest(messages, token) {
+        const response = await model.sendRequest(toLanguageModelMessages(messages), {}, token);
+        return response.text;
+      },
+    }));
+  },
+};
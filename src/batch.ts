@@ -0,0 +1,307 @@
+/**
+ * Batch translation of a folder (or glob) of Markdown and MDX files into a mirrored output tree
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { translateDocument } from './translator';
+import { isMdxPath, parseMarkdownToBlocks } from './parser';
+import { getLanguageCode, getPresetLanguageCodes } from './language';
+import { describeGlossaryViolation } from './glossaryTerms';
+import { findOutputPaths, formatOutputPath, getGlobBase, getOutputPathVariables } from './outputPath';
+import { localizeLinks } from './save';
+
+/**
+ * workspaceState key of the batch manifest
+ */
+const MANIFEST_KEY = 'markdownTranslate.batchManifest';
+
+/**
+ * What was written for a source file in a previous run
+ */
+interface BatchManifestEntry {
+  /** Hash of the source document (changes whenever any block hash changes) */
+  documentHash: string;
+  /** Workspace-relative output path */
+  output: string;
+}
+
+/**
+ * Manifest of previous runs: "<lang>:<workspace folder>/<source path>" -> entry
+ */
+type BatchManifest = Record<string, BatchManifestEntry>;
+
+/**
+ * A Markdown file to translate
+ */
+interface BatchFile {
+  uri: vscode.Uri;
+  folder: vscode.WorkspaceFolder;
+  /** Path relative to the workspace folder */
+  relativePath: string;
+  /** Output path relative to the workspace folder */
+  outputPath: string;
+}
+
+interface BatchSummary {
+  translated: string[];
+  unchanged: string[];
+  failed: Array<{ file: string; error: string }>;
+  warnings: string[];
+  cancelled: boolean;
+}
+
+function toRelativePath(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+  return path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, '/');
+}
+
+function getManifestKey(lang: string, file: BatchFile): string {
+  return `${lang}:${file.folder.name}/${file.relativePath}`;
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ask for the folder or glob to translate when the command isn't run from the explorer
+ */
+async function pickTarget(): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    title: 'Translate Markdown Folder',
+    prompt: 'Workspace-relative folder or glob pattern of Markdown files',
+    placeHolder: 'docs or docs/**/*.md',
+    value: 'docs',
+  });
+}
+
+/**
+ * Get the languages and output paths of earlier runs in a workspace folder
+ */
+function getManifestOutputs(
+  manifest: BatchManifest,
+  folder: vscode.WorkspaceFolder
+): { langs: string[]; outputs: string[] } {
+  const langs = new Set<string>();
+  const outputs: string[] = [];
+  for (const [key, entry] of Object.entries(manifest)) {
+    const separator = key.indexOf(':');
+    langs.add(key.slice(0, separator));
+    if (key.startsWith(`${folder.name}/`, separator + 1)) {
+      outputs.push(entry.output);
+    }
+  }
+  return { langs: [...langs], outputs };
+}
+
+/**
+ * Find the Markdown files to translate and where their translations go
+ * Translations in any language are left out: outputs of this run (e.g. docs/ja/*.md inside docs/),
+ * outputs of earlier runs recorded in the manifest, and files at the output path of another file for
+ * a preset language (e.g. docs/ko/*.md).
+ */
+async function collectFiles(
+  target: vscode.Uri | string,
+  lang: string,
+  pattern: string,
+  manifest: BatchManifest
+): Promise<BatchFile[]> {
+  let uris: vscode.Uri[];
+  let root: string;
+  let folder: vscode.WorkspaceFolder | undefined;
+
+  if (typeof target === 'string' && /[*?[\]{}]/.test(target)) {
+    folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      return [];
+    }
+    uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, target), '**/node_modules/**');
+    root = getGlobBase(target);
+  } else {
+    const folderUri =
+      typeof target === 'string' && vscode.workspace.workspaceFolders?.[0]
+        ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, target)
+        : (target as vscode.Uri);
+    folder = vscode.workspace.getWorkspaceFolder(folderUri);
+    if (!folder) {
+      return [];
+    }
+    uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folderUri, '**/*.{md,mdx}'), '**/node_modules/**');
+    root = toRelativePath(folder, folderUri) || '.';
+  }
+
+  const workspaceFolder = folder;
+  const files = uris.map((uri) => {
+    const relativePath = toRelativePath(workspaceFolder, uri);
+    const outputPath = formatOutputPath(pattern, getOutputPathVariables(relativePath, lang, root));
+    return { uri, folder: workspaceFolder, relativePath, outputPath };
+  });
+
+  const previous = getManifestOutputs(manifest, workspaceFolder);
+  const langs = [...new Set([lang, ...getPresetLanguageCodes(), ...previous.langs])];
+  const outputs = findOutputPaths(files.map((file) => file.relativePath), pattern, langs, root);
+  for (const output of [...files.map((file) => file.outputPath), ...previous.outputs]) {
+    outputs.add(output);
+  }
+  return files
+    .filter((file) => !outputs.has(file.relativePath))
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Translate one file, skipping it when the source is unchanged since the last run
+ * @param outputs - Source path -> output path of every file in the run, for rewriting links between them
+ */
+async function translateFile(
+  file: BatchFile,
+  targetLanguage: string,
+  manifest: BatchManifest,
+  token: vscode.CancellationToken,
+  summary: BatchSummary,
+  outputs: Map<string, string>
+): Promise<void> {
+  const lang = getLanguageCode(targetLanguage);
+  const outputUri = vscode.Uri.joinPath(file.folder.uri, file.outputPath);
+  const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(file.uri));
+  const documentHash = parseMarkdownToBlocks(content, { mdx: isMdxPath(file.relativePath) }).documentHash;
+
+  const previous = manifest[getManifestKey(lang, file)];
+  if (
+    previous &&
+    previous.documentHash === documentHash &&
+    previous.output === file.outputPath &&
+    (await fileExists(outputUri))
+  ) {
+    summary.unchanged.push(file.relativePath);
+    return;
+  }
+
+  const result = await translateDocument(content, targetLanguage, token, { documentUri: file.uri });
+  if (!result.success || result.translation === undefined) {
+    if (token.isCancellationRequested) {
+      summary.cancelled = true;
+      return;
+    }
+    summary.failed.push({ file: file.relativePath, error: result.error || 'Translation failed' });
+    return;
+  }
+
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(file.folder.uri, path.posix.dirname(file.outputPath)));
+  const localized = await localizeLinks(
+    result.translation,
+    file.folder.uri,
+    file.relativePath,
+    file.outputPath,
+    (documentPath) => outputs.get(documentPath),
+    () => true
+  );
+  await vscode.workspace.fs.writeFile(outputUri, new TextEncoder().encode(localized.translation));
+  manifest[getManifestKey(lang, file)] = { documentHash, output: file.outputPath };
+  summary.translated.push(file.relativePath);
+
+  const warnings = [
+    ...(result.warnings ?? []),
+    ...(result.glossaryViolations ?? []).map(describeGlossaryViolation),
+    ...localized.untranslated.map((target) => `Link to ${target} points at the original: it is not part of the batch`),
+  ];
+  summary.warnings.push(...[...new Set(warnings)].map((warning) => `${file.relativePath}: ${warning}`));
+}
+
+/**
+ * Translate every Markdown file in a folder (or matching a glob) into a mirrored output tree
+ * @param target - Folder from the explorer context menu; asks for a folder or glob when omitted
+ */
+export async function translateFolder(
+  context: vscode.ExtensionContext,
+  targetLanguage: string,
+  log: (message: string) => void,
+  target?: vscode.Uri
+): Promise<void> {
+  const resolvedTarget = target ?? (await pickTarget());
+  if (!resolvedTarget) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  const pattern = config.get<string>('batchOutputPattern', '{root}/{lang}/{path}');
+  const lang = getLanguageCode(targetLanguage);
+
+  const manifest = { ...context.workspaceState.get<BatchManifest>(MANIFEST_KEY, {}) };
+  let files: BatchFile[];
+  try {
+    files = await collectFiles(resolvedTarget, lang, pattern, manifest);
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  if (files.length === 0) {
+    vscode.window.showInformationMessage('No Markdown files found to translate.');
+    return;
+  }
+
+  const summary: BatchSummary = { translated: [], unchanged: [], failed: [], warnings: [], cancelled: false };
+  const outputs = new Map(files.map((file) => [file.relativePath, file.outputPath]));
+
+  log(`Batch translation to ${targetLanguage}: ${files.length} file${files.length > 1 ? 's' : ''}`);
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Translating Markdown files to ${targetLanguage}`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const [i, file] of files.entries()) {
+        if (token.isCancellationRequested) {
+          summary.cancelled = true;
+          break;
+        }
+        progress.report({
+          message: `${i + 1}/${files.length}: ${file.relativePath}`,
+          increment: 100 / files.length,
+        });
+
+        try {
+          await translateFile(file, targetLanguage, manifest, token, summary, outputs);
+        } catch (error) {
+          summary.failed.push({
+            file: file.relativePath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        // Save after every file so a cancelled run keeps its progress
+        await context.workspaceState.update(MANIFEST_KEY, manifest);
+      }
+    }
+  );
+
+  log(
+    `Batch translation ${summary.cancelled ? 'cancelled' : 'finished'}: ` +
+      `${summary.translated.length} translated, ${summary.unchanged.length} unchanged, ${summary.failed.length} failed`
+  );
+  for (const file of summary.translated) {
+    log(`  Translated: ${file}`);
+  }
+  for (const { file, error } of summary.failed) {
+    log(`  Failed: ${file} - ${error}`);
+  }
+  for (const warning of summary.warnings) {
+    log(`  Warning: ${warning}`);
+  }
+
+  const message =
+    `Translated ${summary.translated.length} file${summary.translated.length === 1 ? '' : 's'}` +
+    (summary.unchanged.length > 0 ? `, ${summary.unchanged.length} unchanged` : '') +
+    (summary.failed.length > 0 ? `, ${summary.failed.length} failed` : '') +
+    (summary.cancelled ? ' (cancelled)' : '');
+  if (summary.failed.length > 0) {
+    vscode.window.showWarningMessage(`${message}. See the Markdown AI Translator output for details.`);
+  } else {
+    vscode.window.showInformationMessage(message);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Block chunking, mapping and merging helpers
+ * Pure functions shared by the translator (no VS Code dependency, so they can be unit tested)
+ */
+
+import { BlockType, MarkdownBlock, ParsedDocument } from './types/block';
+import { restoreLineEndings } from './parser';
+
+/**
+ * Internal maximum chunk size to avoid "Response too long" errors.
+ * User-selected chunk sizes larger than this will be auto-split into multiple requests.
+ */
+export const INTERNAL_MAX_CHUNK_SIZE = 10000;
+
+/**
+ * Block types that are never translated (their source content is used as-is)
+ */
+const PASSTHROUGH_BLOCK_TYPES: ReadonlySet<BlockType> = new Set<BlockType>([
+  'blank_lines',
+  'code_block',
+  'thematic_break',
+  'math_block',
+  'link_reference_definition',
+  'mdx_esm',
+  'mdx_expression',
+]);
+
+/**
+ * Check if a block is used as-is instead of being translated
+ */
+export function isPassthroughBlock(block: MarkdownBlock): boolean {
+  return PASSTHROUGH_BLOCK_TYPES.has(block.type);
+}
+
+/**
+ * Split a footnote definition into its `[^label]:` marker (with the following spaces) and its text
+ */
+export function splitFootnoteDefinition(content: string): { marker: string; text: string } {
+  const match = content.match(/^ {0,3}\[\^[^\]\s]+\]:[ \t]*/);
+  const marker = match ? match[0] : '';
+  return { marker, text: content.slice(marker.length) };
+}
+
+/**
+ * Select blocks to translate within chunk size limit
+ */
+export function selectBlocksForChunk(
+  blocks: MarkdownBlock[],
+  startIndex: number,
+  chunkSize: number
+): { blocksToTranslate: MarkdownBlock[]; lastBlockIndex: number } {
+  const blocksToTranslate: MarkdownBlock[] = [];
+  let totalSize = 0;
+  let lastBlockIndex = startIndex - 1;
+
+  for (let i = startIndex; i < blocks.length; i++) {
+    const block = blocks[i];
+    const blockSize = block.content.length;
+
+    // Always include at least one block
+    if (blocksToTranslate.length === 0 || totalSize + blockSize <= chunkSize) {
+      blocksToTranslate.push(block);
+      totalSize += blockSize + 1; // +1 for newline
+      lastBlockIndex = i;
+    } else {
+      break;
+    }
+  }
+
+  return { blocksToTranslate, lastBlockIndex };
+}
+
+/**
+ * Split blocks into internal chunks to avoid "Response too long" errors.
+ * Each internal chunk will be at most INTERNAL_MAX_CHUNK_SIZE characters.
+ */
+export function splitIntoInternalChunks(blocks: MarkdownBlock[]): MarkdownBlock[][] {
+  const chunks: MarkdownBlock[][] = [];
+  let currentChunk: MarkdownBlock[] = [];
+  let currentSize = 0;
+
+  for (const block of blocks) {
+    const blockSize = block.content.length;
+
+    // Always include at least one block in a chunk
+    if (currentChunk.length === 0 || currentSize + blockSize <= INTERNAL_MAX_CHUNK_SIZE) {
+      currentChunk.push(block);
+      currentSize += blockSize + 1; // +1 for newline
+    } else {
+      // Start a new chunk
+      chunks.push(currentChunk);
+      currentChunk = [block];
+      currentSize = blockSize + 1;
+    }
+  }
+
+  // Don't forget the last chunk
+  if (currentChunk.length > 0) {
+    chunks.push(currentChunk);
+  }
+
+  return chunks;
+}
+
+/**
+ * Build block translation map for a specific range of source blocks
+ */
+export function buildBlockTranslationMapForRange(
+  sourceBlocks: MarkdownBlock[],
+  translation: ParsedDocument
+): Map<string, string> {
+  const map = new Map<string, string>();
+
+  if (sourceBlocks.length === translation.blocks.length) {
+    // Position-based mapping
+    for (let i = 0; i < sourceBlocks.length; i++) {
+      map.set(sourceBlocks[i].hash, translation.blocks[i].content);
+    }
+  } else {
+    // Type-based matching
+    let translationIndex = 0;
+    for (const sourceBlock of sourceBlocks) {
+      while (
+        translationIndex < translation.blocks.length &&
+        translation.blocks[translationIndex].type !== sourceBlock.type
+      ) {
+        translationIndex++;
+      }
+
+      if (translationIndex < translation.blocks.length) {
+        map.set(sourceBlock.hash, translation.blocks[translationIndex].content);
+        translationIndex++;
+      } else {
+        map.set(sourceBlock.hash, sourceBlock.content);
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Build a mapping from source block hashes to their translations
+ * Uses position-based matching when block counts match
+ */
+export function buildBlockTranslationMap(
+  source: ParsedDocument,
+  translation: ParsedDocument
+): Map<string, string> {
+  const map = new Map<string, string>();
+
+  // If block counts match, use position-based mapping
+  if (source.blocks.length === translation.blocks.length) {
+    for (let i = 0; i < source.blocks.length; i++) {
+      const sourceBlock = source.blocks[i];
+      const translatedBlock = translation.blocks[i];
+      map.set(sourceBlock.hash, translatedBlock.content);
+    }
+  } else {
+    // Block counts don't match - try to match by type and relative position
+    let translationIndex = 0;
+    for (const sourceBlock of source.blocks) {
+      // Find next matching block type in translation
+      while (
+        translationIndex < translation.blocks.length &&
+        translation.blocks[translationIndex].type !== sourceBlock.type
+      ) {
+        translationIndex++;
+      }
+
+      if (translationIndex < translation.blocks.length) {
+        map.set(sourceBlock.hash, translation.blocks[translationIndex].content);
+        translationIndex++;
+      } else {
+        // No matching block found - use original content
+        map.set(sourceBlock.hash, sourceBlock.content);
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Merge translated blocks into final document, with the line ending of the source document
+ * @param document - The parsed document
+ * @param translations - Map of block hash to translation
+ * @param upToBlockIndex - Optional: only merge blocks up to this index (inclusive)
+ * @param transform - Optional: applied to each block's output (e.g. to fix heading anchors)
+ */
+export function mergeTranslatedBlocks(
+  document: ParsedDocument,
+  translations: Map<string, string>,
+  upToBlockIndex?: number,
+  transform?: (block: MarkdownBlock, translation: string) => string
+): string {
+  const translatedBlocks: string[] = [];
+  const lastIndex = upToBlockIndex ?? document.blocks.length - 1;
+
+  for (let i = 0; i <= lastIndex && i < document.blocks.length; i++) {
+    const block = document.blocks[i];
+    // No translation available - use original (shouldn't happen normally)
+    const translation = translations.get(block.hash) ?? block.content;
+    translatedBlocks.push(transform ? transform(block, translation) : translation);
+  }
+
+  return restoreLineEndings(translatedBlocks.join('\n'), document.lineEnding);
+}
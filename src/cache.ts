@@ -1,4 +1,6 @@
 import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 
 interface CacheEntry {
   hash: string;
@@ -11,9 +13,46 @@ interface BlockCacheEntry {
   timestamp: number;
 }
 
+/**
+ * Version of the on-disk block cache format.
+ * Bump this when the persisted layout changes; files with another version are discarded.
+ */
+const BLOCK_CACHE_FORMAT_VERSION = 1;
+
+/**
+ * File name of the persisted block cache inside the storage directory
+ */
+const BLOCK_CACHE_FILE_NAME = 'block-cache.json';
+
+/**
+ * Delay before pending block cache changes are written to disk (batches consecutive writes)
+ */
+const FLUSH_DELAY_MS = 2000;
+
+/**
+ * On-disk representation of the block cache
+ */
+interface PersistedBlockCache {
+  version: number;
+  /** sourceHash -> targetLanguage -> entry */
+  entries: Record<string, Record<string, BlockCacheEntry>>;
+}
+
+export interface CacheOptions {
+  /** Maximum age of a cache entry in milliseconds */
+  maxAge: number;
+  /** Maximum number of block translations kept (one per source hash and language) */
+  maxEntries: number;
+}
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  maxEntries: 10000,
+};
+
 export class TranslationCache {
   private cache: Map<string, CacheEntry> = new Map();
-  private maxAge: number = 24 * 60 * 60 * 1000; // 24 hours
+  private options: CacheOptions = { ...DEFAULT_CACHE_OPTIONS };
 
   /**
    * Generate a hash for the given content
@@ -22,6 +61,16 @@ export class TranslationCache {
     return crypto.createHash('sha256').update(content).digest('hex');
   }
 
+  /**
+   * Update expiry and size limits, pruning entries that no longer fit
+   */
+  configure(options: Partial<CacheOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (this.blockCacheLoaded && this.pruneBlockCache()) {
+      this.scheduleFlush();
+    }
+  }
+
   /**
    * Get cached translation if available and not expired
    */
@@ -34,7 +83,7 @@ export class TranslationCache {
     }
 
     // Check if cache entry is expired
-    if (Date.now() - entry.timestamp > this.maxAge) {
+    if (Date.now() - entry.timestamp > this.options.maxAge) {
       this.cache.delete(hash);
       return undefined;
     }
@@ -66,13 +115,14 @@ export class TranslationCache {
    */
   clear(): void {
     this.cache.clear();
-    this.blockCache.clear();
+    this.clearBlockCache();
   }
 
   /**
    * Get cache statistics
    */
   getStats(): { size: number; entries: number; blockEntries: number } {
+    this.ensureBlockCacheLoaded();
     return {
       size: this.cache.size,
       entries: this.cache.size,
@@ -89,10 +139,40 @@ export class TranslationCache {
    */
   private blockCache: Map<string, Map<string, BlockCacheEntry>> = new Map();
 
+  /** Directory where the block cache is persisted (undefined = in-memory only) */
+  private storageDir: string | undefined;
+  /** Whether the persisted block cache has been read into memory */
+  private blockCacheLoaded = false;
+  /** Whether the in-memory block cache has changes not yet written to disk */
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | undefined;
+  /** Last started write, so writes run one after another and never overtake each other */
+  private pendingWrite: Promise<void> = Promise.resolve();
+  /** Number of writes started, for unique temporary file names */
+  private writeCount = 0;
+  /** Whether the next write replaces the file instead of merging with it (after clearing the cache) */
+  private discardPersisted = false;
+  /** Reports failures to read or write the cache file */
+  private log: (message: string) => void = () => undefined;
+
+  /**
+   * Persist the block cache under the given directory.
+   * The file is read lazily on the first block cache access.
+   */
+  attachStorage(storageDir: string, log?: (message: string) => void): void {
+    this.storageDir = storageDir;
+    this.blockCacheLoaded = false;
+    if (log) {
+      this.log = log;
+    }
+  }
+
   /**
    * Get cached block translation by source hash and target language
    */
   getBlock(sourceHash: string, targetLanguage: string): string | undefined {
+    this.ensureBlockCacheLoaded();
+
     const langMap = this.blockCache.get(sourceHash);
     if (!langMap) {
       return undefined;
@@ -104,11 +184,12 @@ export class TranslationCache {
     }
 
     // Check if cache entry is expired
-    if (Date.now() - entry.timestamp > this.maxAge) {
+    if (Date.now() - entry.timestamp > this.options.maxAge) {
       langMap.delete(targetLanguage);
       if (langMap.size === 0) {
         this.blockCache.delete(sourceHash);
       }
+      this.scheduleFlush();
       return undefined;
     }
 
@@ -119,16 +200,10 @@ export class TranslationCache {
    * Store block translation in cache
    */
   setBlock(sourceHash: string, targetLanguage: string, translation: string): void {
-    let langMap = this.blockCache.get(sourceHash);
-    if (!langMap) {
-      langMap = new Map();
-      this.blockCache.set(sourceHash, langMap);
-    }
-
-    langMap.set(targetLanguage, {
-      translation,
-      timestamp: Date.now(),
-    });
+    this.ensureBlockCacheLoaded();
+    this.setBlockEntry(sourceHash, targetLanguage, translation);
+    this.pruneBlockCache();
+    this.scheduleFlush();
   }
 
   /**
@@ -151,9 +226,16 @@ export class TranslationCache {
    * Store multiple block translations at once
    */
   setBlocks(translations: Map<string, string>, targetLanguage: string): void {
+    if (translations.size === 0) {
+      return;
+    }
+
+    this.ensureBlockCacheLoaded();
     for (const [hash, translation] of translations) {
-      this.setBlock(hash, targetLanguage, translation);
+      this.setBlockEntry(hash, targetLanguage, translation);
     }
+    this.pruneBlockCache();
+    this.scheduleFlush();
   }
 
   /**
@@ -168,6 +250,223 @@ export class TranslationCache {
    */
   clearBlockCache(): void {
     this.blockCache.clear();
+    // Nothing on disk is worth keeping, so don't bother reading it later
+    this.blockCacheLoaded = true;
+    this.discardPersisted = true;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Write pending block cache changes to disk immediately
+   * Waits for a write that is still running first, so an older snapshot never replaces a newer one.
+   */
+  flush(): Promise<void> {
+    this.cancelScheduledFlush();
+    const write = this.pendingWrite.then(() => this.writeBlockCache());
+    this.pendingWrite = write;
+    return write;
+  }
+
+  private async writeBlockCache(): Promise<void> {
+    const filePath = this.getBlockCacheFilePath();
+    if (!filePath || !this.dirty) {
+      return;
+    }
+
+    this.dirty = false;
+    // Other windows share the storage directory: keep the entries they wrote since the file was loaded
+    const discardPersisted = this.discardPersisted;
+    this.discardPersisted = false;
+    if (!discardPersisted) {
+      const persisted = await this.readBlockCacheFile(filePath);
+      if (persisted) {
+        this.mergePersistedBlockCache(persisted);
+        this.pruneBlockCache();
+      }
+    }
+
+    const data = JSON.stringify(this.serializeBlockCache());
+    // Unique per process and write, as other windows share the storage directory
+    const tempPath = `${filePath}.${process.pid}-${++this.writeCount}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, data, 'utf-8');
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      // Keep the changes pending so the next flush retries
+      this.dirty = true;
+      this.discardPersisted = discardPersisted;
+      await fs.promises.rm(tempPath, { force: true }).catch(() => undefined);
+      this.logError('Failed to write translation cache', error);
+    }
+  }
+
+  /**
+   * Read the persisted block cache
+   * @returns The cache, or undefined if the file is missing, unreadable or in another format version
+   */
+  private async readBlockCacheFile(filePath: string): Promise<PersistedBlockCache | undefined> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logError('Failed to read translation cache', error);
+      }
+      return undefined;
+    }
+    return this.parseBlockCache(data);
+  }
+
+  private parseBlockCache(data: string): PersistedBlockCache | undefined {
+    try {
+      const persisted = JSON.parse(data) as PersistedBlockCache;
+      return persisted.version === BLOCK_CACHE_FORMAT_VERSION && persisted.entries ? persisted : undefined;
+    } catch (error) {
+      this.logError('Failed to read translation cache', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Add persisted entries that are missing from memory or newer than the ones in memory
+   */
+  private mergePersistedBlockCache(persisted: PersistedBlockCache): void {
+    for (const [sourceHash, languages] of Object.entries(persisted.entries)) {
+      for (const [targetLanguage, entry] of Object.entries(languages)) {
+        const current = this.blockCache.get(sourceHash)?.get(targetLanguage);
+        if (current && current.timestamp >= entry.timestamp) {
+          continue;
+        }
+        let langMap = this.blockCache.get(sourceHash);
+        if (!langMap) {
+          langMap = new Map();
+          this.blockCache.set(sourceHash, langMap);
+        }
+        langMap.set(targetLanguage, entry);
+      }
+    }
+  }
+
+  private logError(message: string, error: unknown): void {
+    this.log(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  private getBlockCacheFilePath(): string | undefined {
+    return this.storageDir ? path.join(this.storageDir, BLOCK_CACHE_FILE_NAME) : undefined;
+  }
+
+  private setBlockEntry(sourceHash: string, targetLanguage: string, translation: string): void {
+    let langMap = this.blockCache.get(sourceHash);
+    if (!langMap) {
+      langMap = new Map();
+      this.blockCache.set(sourceHash, langMap);
+    }
+
+    langMap.set(targetLanguage, {
+      translation,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Read the persisted block cache on first access.
+   * Missing, unreadable or outdated files start an empty cache.
+   */
+  private ensureBlockCacheLoaded(): void {
+    if (this.blockCacheLoaded) {
+      return;
+    }
+    this.blockCacheLoaded = true;
+
+    const filePath = this.getBlockCacheFilePath();
+    if (!filePath || !fs.existsSync(filePath)) {
+      return;
+    }
+
+    let data: string;
+    try {
+      data = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      this.logError('Failed to read translation cache', error);
+      return;
+    }
+    const persisted = this.parseBlockCache(data);
+    if (!persisted) {
+      return;
+    }
+    this.mergePersistedBlockCache(persisted);
+
+    if (this.pruneBlockCache()) {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Drop expired entries, then the oldest entries above maxEntries
+   * @returns Whether any entry was removed
+   */
+  private pruneBlockCache(): boolean {
+    const now = Date.now();
+    const entries: Array<{ sourceHash: string; targetLanguage: string; timestamp: number }> = [];
+    let removed = false;
+
+    for (const [sourceHash, langMap] of this.blockCache) {
+      for (const [targetLanguage, entry] of langMap) {
+        if (now - entry.timestamp > this.options.maxAge) {
+          langMap.delete(targetLanguage);
+          removed = true;
+        } else {
+          entries.push({ sourceHash, targetLanguage, timestamp: entry.timestamp });
+        }
+      }
+      if (langMap.size === 0) {
+        this.blockCache.delete(sourceHash);
+      }
+    }
+
+    if (entries.length > this.options.maxEntries) {
+      entries.sort((a, b) => a.timestamp - b.timestamp);
+      for (const entry of entries.slice(0, entries.length - this.options.maxEntries)) {
+        const langMap = this.blockCache.get(entry.sourceHash);
+        langMap?.delete(entry.targetLanguage);
+        if (langMap && langMap.size === 0) {
+          this.blockCache.delete(entry.sourceHash);
+        }
+      }
+      removed = true;
+    }
+
+    return removed;
+  }
+
+  private serializeBlockCache(): PersistedBlockCache {
+    const entries: PersistedBlockCache['entries'] = {};
+    for (const [sourceHash, langMap] of this.blockCache) {
+      entries[sourceHash] = Object.fromEntries(langMap);
+    }
+    return { version: BLOCK_CACHE_FORMAT_VERSION, entries };
+  }
+
+  private scheduleFlush(): void {
+    if (!this.storageDir) {
+      return;
+    }
+    this.dirty = true;
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private cancelScheduledFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
   }
 }
 
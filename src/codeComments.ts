@@ -0,0 +1,355 @@
+/**
+ * Comments (and marked string literals) inside fenced code blocks
+ * The comment syntax comes from the language in the fence info string. Only comment text is
+ * translated, plus string literals on lines marked with a `translate` comment; code tokens,
+ * comment markers and indentation are kept byte for byte.
+ */
+
+import { generateHash } from './parser';
+import { BlockSegment } from './segments';
+
+/**
+ * Comment and string delimiters of a language
+ */
+interface CodeSyntax {
+  line: string[];
+  block: Array<[string, string]>;
+  /** String delimiters, longest first; `'` and `"` strings end at the end of the line */
+  quotes: string[];
+}
+
+const C_LIKE: CodeSyntax = { line: ['//'], block: [['/*', '*/']], quotes: ['"', "'"] };
+const JS_LIKE: CodeSyntax = { ...C_LIKE, quotes: ['`', '"', "'"] };
+const HASH: CodeSyntax = { line: ['#'], block: [], quotes: ['"', "'"] };
+const PYTHON: CodeSyntax = { line: ['#'], block: [], quotes: ['"""', "'''", '"', "'"] };
+const SQL: CodeSyntax = { line: ['--'], block: [['/*', '*/']], quotes: ["'", '"'] };
+const MARKUP: CodeSyntax = { line: [], block: [['<!--', '-->']], quotes: [] };
+
+const LANGUAGE_SYNTAX: Record<string, CodeSyntax> = {
+  c: C_LIKE,
+  cpp: C_LIKE,
+  'c++': C_LIKE,
+  cs: C_LIKE,
+  csharp: C_LIKE,
+  java: C_LIKE,
+  kotlin: C_LIKE,
+  kt: C_LIKE,
+  scala: C_LIKE,
+  swift: C_LIKE,
+  rust: C_LIKE,
+  rs: C_LIKE,
+  go: { ...C_LIKE, quotes: ['`', '"', "'"] },
+  dart: C_LIKE,
+  php: { ...C_LIKE, line: ['//', '#'] },
+  css: { line: [], block: [['/*', '*/']], quotes: ['"', "'"] },
+  scss: C_LIKE,
+  less: C_LIKE,
+  jsonc: C_LIKE,
+  json5: C_LIKE,
+  js: JS_LIKE,
+  javascript: JS_LIKE,
+  jsx: JS_LIKE,
+  mjs: JS_LIKE,
+  ts: JS_LIKE,
+  typescript: JS_LIKE,
+  tsx: JS_LIKE,
+  sh: HASH,
+  bash: HASH,
+  shell: HASH,
+  zsh: HASH,
+  fish: HASH,
+  powershell: { ...HASH, block: [['<#', '#>']] },
+  ps1: { ...HASH, block: [['<#', '#>']] },
+  ruby: HASH,
+  rb: HASH,
+  perl: HASH,
+  r: HASH,
+  yaml: HASH,
+  yml: HASH,
+  toml: HASH,
+  ini: { ...HASH, line: [';', '#'] },
+  dockerfile: HASH,
+  docker: HASH,
+  makefile: HASH,
+  make: HASH,
+  nginx: HASH,
+  python: PYTHON,
+  py: PYTHON,
+  sql: SQL,
+  lua: { line: ['--'], block: [['--[[', ']]']], quotes: ['"', "'"] },
+  haskell: { line: ['--'], block: [['{-', '-}']], quotes: ['"'] },
+  hs: { line: ['--'], block: [['{-', '-}']], quotes: ['"'] },
+  html: MARKUP,
+  xml: MARKUP,
+  svg: MARKUP,
+  vue: MARKUP,
+  svelte: MARKUP,
+};
+
+/**
+ * A piece of code
+ */
+export interface CodeToken {
+  type: 'code' | 'comment' | 'string';
+  text: string;
+}
+
+/**
+ * Translatable comment text, string literal content or diagram label
+ */
+export interface CodeSegment extends BlockSegment {
+  kind: 'comment' | 'string' | 'label';
+  /**
+   * Text a translation must not contain: the block comment closer or the string quote
+   * (for labels, each character is a character the label can't contain)
+   */
+  delimiter?: string;
+  /** Whether a translation may span several lines */
+  multiline: boolean;
+}
+
+/**
+ * A code block split into segments and the literal code around them
+ */
+export interface SegmentedCode {
+  /** Segments and literal strings in order; joining them rebuilds the block content */
+  parts: Array<string | CodeSegment>;
+  /** Just the segments, in order */
+  segments: CodeSegment[];
+}
+
+/**
+ * Comments that are instructions for tools (shebangs, linters, type checkers) and never translated
+ */
+const DIRECTIVE_COMMENT =
+  /^(?:!|-\*-|@ts-|eslint|prettier-ignore|istanbul |c8 |noqa|type:|pylint:|mypy:|go:|nolint|#?(?:end)?region\b)/i;
+
+/**
+ * Comment text that marks the string literals on its line for translation
+ */
+const TRANSLATE_MARKER = 'translate';
+
+/**
+ * Get the language of a fenced code block from its info string (e.g. "ts" for ```ts title="a.ts")
+ */
+export function getCodeLanguage(content: string): string | undefined {
+  const match = content.match(/^ {0,3}(?:`{3,}|~{3,})[ \t]*\{?\.?([^\s{}`,]+)/);
+  return match?.[1].toLowerCase().replace(/^language-/, '');
+}
+
+function readString(code: string, start: number, quote: string): number | undefined {
+  for (let i = start + quote.length; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code.startsWith(quote, i)) {
+      return i + quote.length;
+    } else if (code[i] === '\n' && quote.length === 1 && quote !== '`') {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split code into comments, string literals and the code between them
+ * Joining the token texts rebuilds the code.
+ */
+export function tokenizeCode(code: string, language: string): CodeToken[] {
+  const syntax = LANGUAGE_SYNTAX[language];
+  if (!syntax) {
+    return [{ type: 'code', text: code }];
+  }
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeToken['type'], text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (type === 'code' && last?.type === 'code') {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const block = syntax.block.find(([open]) => code.startsWith(open, i));
+    if (block) {
+      const close = code.indexOf(block[1], i + block[0].length);
+      const end = close === -1 ? code.length : close + block[1].length;
+      push('comment', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    // # only starts a comment at the start of a word (e.g. not in $# or a URL fragment)
+    const line = syntax.line.find(
+      (marker) => code.startsWith(marker, i) && (marker !== '#' || !/\S/.test(code[i - 1] ?? ' '))
+    );
+    if (line) {
+      const newline = code.indexOf('\n', i);
+      const end = newline === -1 ? code.length : newline;
+      push('comment', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    const quote = syntax.quotes.find((q) => code.startsWith(q, i));
+    const end = quote && readString(code, i, quote);
+    if (end) {
+      push('string', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    push('code', code[i]);
+    i++;
+  }
+
+  return tokens;
+}
+
+function getCommentDelimiters(comment: string, language: string): { open: string; close: string } {
+  const syntax = LANGUAGE_SYNTAX[language]!;
+  const block = syntax.block.find(([open]) => comment.startsWith(open));
+  if (block) {
+    return { open: block[0], close: comment.endsWith(block[1]) ? block[1] : '' };
+  }
+  return { open: syntax.line.find((marker) => comment.startsWith(marker))!, close: '' };
+}
+
+/**
+ * Split a fenced code block into its opening fence line, code and closing fence line
+ * `opening + body + closing` is the block content.
+ * @returns The parts, or undefined if the block isn't fenced
+ */
+export function splitCodeFence(content: string): { opening: string; body: string; closing: string } | undefined {
+  const fence = content.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+  const firstNewline = content.indexOf('\n');
+  if (!fence || firstNewline === -1) {
+    return undefined;
+  }
+  const lastNewline = content.lastIndexOf('\n');
+  const lastLine = content.slice(lastNewline + 1).trim();
+  const closed = lastLine.startsWith(fence) && /^[`~]+$/.test(lastLine);
+  const bodyEnd = closed ? lastNewline : content.length;
+  return {
+    opening: content.slice(0, firstNewline + 1),
+    body: content.slice(firstNewline + 1, Math.max(bodyEnd, firstNewline + 1)),
+    closing: content.slice(Math.max(bodyEnd, firstNewline + 1)),
+  };
+}
+
+/**
+ * Merge adjacent literal parts and collect the segments
+ */
+export function mergeCodeParts(parts: Array<string | CodeSegment>): SegmentedCode {
+  const merged: Array<string | CodeSegment> = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (typeof part === 'string' && typeof last === 'string') {
+      merged[merged.length - 1] = last + part;
+    } else if (part !== '') {
+      merged.push(part);
+    }
+  }
+  return { parts: merged, segments: merged.filter((part): part is CodeSegment => typeof part !== 'string') };
+}
+
+/**
+ * Split a fenced code block into translatable comment lines (and marked string literals) and code
+ * @returns The segmented block, or undefined if the block isn't fenced or its language is unknown
+ */
+export function segmentCodeBlock(content: string): SegmentedCode | undefined {
+  const language = getCodeLanguage(content);
+  const fenced = splitCodeFence(content);
+  if (!language || !LANGUAGE_SYNTAX[language] || !fenced) {
+    return undefined;
+  }
+  const tokens = tokenizeCode(fenced.body, language);
+
+  // Lines with a `translate` comment
+  const markedLines = new Set<number>();
+  let lineIndex = 0;
+  const tokenLines = tokens.map((token) => {
+    const start = lineIndex;
+    lineIndex += token.text.split('\n').length - 1;
+    if (token.type === 'comment') {
+      const { open, close } = getCommentDelimiters(token.text, language);
+      if (token.text.slice(open.length, token.text.length - close.length).trim().toLowerCase() === TRANSLATE_MARKER) {
+        markedLines.add(start);
+      }
+    }
+    return start;
+  });
+
+  const parts: Array<string | CodeSegment> = [fenced.opening];
+  tokens.forEach((token, t) => {
+    if (token.type === 'comment') {
+      const { open, close } = getCommentDelimiters(token.text, language);
+      const lines = token.text.slice(open.length, token.text.length - close.length).split('\n');
+      parts.push(open);
+      lines.forEach((line, l) => {
+        if (l > 0) {
+          parts.push('\n');
+        }
+        // Decorations such as the * of JSDoc lines or repeated markers stay in the code
+        const [, leading, text, trailing] = line.match(/^([ \t]*(?:[*#/;=-]+(?=[ \t]|$))?[ \t]*)(.*?)([ \t]*)$/)!;
+        if (/\p{L}/u.test(text) && !DIRECTIVE_COMMENT.test(text) && text.toLowerCase() !== TRANSLATE_MARKER) {
+          const segment: CodeSegment = { content: text, hash: generateHash(text), kind: 'comment', multiline: false };
+          parts.push(leading, close ? { ...segment, delimiter: close } : segment, trailing);
+        } else {
+          parts.push(line);
+        }
+      });
+      parts.push(close);
+      return;
+    }
+
+    if (token.type === 'string' && markedLines.has(tokenLines[t])) {
+      const quote = LANGUAGE_SYNTAX[language]!.quotes.find((q) => token.text.startsWith(q))!;
+      const text = token.text.slice(quote.length, token.text.length - quote.length);
+      if (/\p{L}/u.test(text)) {
+        const multiline = quote.length > 1 || quote === '`';
+        parts.push(quote, { content: text, hash: generateHash(text), kind: 'string', delimiter: quote, multiline });
+        parts.push(quote);
+        return;
+      }
+    }
+    parts.push(token.text);
+  });
+  parts.push(fenced.closing);
+  return mergeCodeParts(parts);
+}
+
+/**
+ * Make a translation safe to put in place of a segment
+ * Line comments are kept on one line, and delimiters inside the translation are broken up
+ * (comments), escaped (strings) or written as Mermaid entity codes (labels) so they can't end
+ * the comment, string or label early.
+ */
+function formatCodeTranslation(segment: CodeSegment, translation: string): string {
+  let text = segment.multiline ? translation : translation.trim().replace(/\s*\n\s*/g, ' ');
+  if (segment.delimiter && segment.kind === 'label') {
+    text = [...text].map((char) => (segment.delimiter!.includes(char) ? `#${char.codePointAt(0)};` : char)).join('');
+  } else if (segment.delimiter) {
+    const replacement =
+      segment.kind === 'string' ? `\\${segment.delimiter}` : `${segment.delimiter[0]} ${segment.delimiter.slice(1)}`;
+    text = text.split(segment.delimiter).join(replacement);
+  }
+  return text;
+}
+
+/**
+ * Rebuild a code block from segment translations (segments without a translation keep their source)
+ */
+export function joinCodeSegments(segmented: SegmentedCode, translations: Map<string, string>): string {
+  return segmented.parts
+    .map((part) => {
+      if (typeof part === 'string') {
+        return part;
+      }
+      const translation = translations.get(part.hash);
+      return translation === undefined ? part.content : formatCodeTranslation(part, translation);
+    })
+    .join('');
+}
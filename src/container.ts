@@ -0,0 +1,120 @@
+/**
+ * Container directives (:::tip Title ... :::) and GitHub alerts (> [!NOTE])
+ * The kind keyword is never translated; the title and the body (as nested blocks) are.
+ */
+
+import { MarkdownBlock } from './types/block';
+import { parseMarkdownToBlocks } from './parser';
+
+/**
+ * A container split into its fixed markup, title and body
+ */
+export interface ParsedContainer {
+  /** Directive or alert kind as written (e.g. "tip", "NOTE") */
+  kind: string;
+  /** Opening line up to the title (e.g. ":::tip[" or "> [!NOTE] ") */
+  opening: string;
+  /** Title text, empty if there is none */
+  title: string;
+  /** Opening line after the title (e.g. "]{#id}") */
+  openingSuffix: string;
+  /** Body Markdown (alert lines without their "> " marker) */
+  body: string;
+  /** Closing line of a directive (e.g. ":::"), undefined for alerts */
+  closing?: string;
+}
+
+/**
+ * Directive opening: colons and kind, then a [bracketed] or plain title and {attributes}
+ */
+const DIRECTIVE_OPENING = /^( {0,3}:{3,}[ \t]*[A-Za-z][\w-]*)(?:(\[)([^\]]*)(\])|([ \t]+)([^{]*?))?([ \t]*\{[^}]*\})?([ \t]*)$/;
+
+/**
+ * Alert marker line with an optional title after it
+ */
+const ALERT_OPENING = /^( {0,3}> ?\[!([A-Za-z]+)\][+-]?)(?:([ \t]+)(.*?))?([ \t]*)$/;
+
+/**
+ * Split a container_directive or alert block
+ * @returns The parsed container, or undefined for other blocks
+ */
+export function parseContainer(block: Pick<MarkdownBlock, 'type' | 'content'>): ParsedContainer | undefined {
+  const lines = block.content.split('\n');
+
+  if (block.type === 'container_directive') {
+    const match = lines[0].match(DIRECTIVE_OPENING);
+    if (!match || lines.length < 2) {
+      return undefined;
+    }
+    const [, opening, open = '', bracketed, close = '', space = '', plain, attributes = '', trailing] = match;
+    return {
+      kind: opening.replace(/^[ :\t]+/, ''),
+      opening: opening + open + space,
+      title: bracketed ?? plain ?? '',
+      openingSuffix: close + attributes + trailing,
+      body: lines.slice(1, -1).join('\n'),
+      closing: lines[lines.length - 1],
+    };
+  }
+
+  if (block.type === 'alert') {
+    const match = lines[0].match(ALERT_OPENING);
+    if (!match) {
+      return undefined;
+    }
+    const [, opening, kind, space = '', title = '', trailing] = match;
+    return {
+      kind,
+      opening: opening + space,
+      title,
+      openingSuffix: trailing,
+      body: lines
+        .slice(1)
+        .map((line) => line.replace(/^ {0,3}> ?/, ''))
+        .join('\n'),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Rebuild a container with a translated title and body
+ */
+export function formatContainer(container: ParsedContainer, title: string, body: string): string {
+  const opening = container.opening + title + container.openingSuffix;
+  if (container.closing === undefined) {
+    const bodyLines = body === '' ? [] : body.split('\n').map((line) => (line === '' ? '>' : `> ${line}`));
+    return [opening, ...bodyLines].join('\n');
+  }
+  return [opening, ...(body === '' ? [] : [body]), container.closing].join('\n');
+}
+
+/**
+ * Parse the title and body of a container into blocks
+ * The title becomes the first block, separated from the body by a blank line, so both can be
+ * translated in one request. The title and the body are parsed separately, so blank lines at the
+ * start of the body stay part of the body.
+ * @returns The blocks and the index of the first body block
+ */
+export function getContainerBlocks(container: ParsedContainer): { blocks: MarkdownBlock[]; bodyStart: number } {
+  const body = parseMarkdownToBlocks(container.body).blocks;
+  if (container.title.trim() === '') {
+    return { blocks: body, bodyStart: 0 };
+  }
+  const title = parseMarkdownToBlocks(container.title).blocks;
+  const separator = parseMarkdownToBlocks('').blocks;
+  const blocks: MarkdownBlock[] = [];
+  for (const part of [title, separator, body]) {
+    const lineOffset = blocks.length > 0 ? blocks[blocks.length - 1].endLine + 1 : 0;
+    for (const block of part) {
+      blocks.push({
+        ...block,
+        index: blocks.length,
+        startLine: block.startLine + lineOffset,
+        endLine: block.endLine + lineOffset,
+      });
+    }
+  }
+  return { blocks, bodyStart: title.length + separator.length };
+}
@@ -9,10 +9,17 @@ import {
   hasTranslationSession,
   clearTranslationSession,
   ModelInfo,
+  TranslationResult,
 } from './translator';
 import { PreviewPanel, PreviewData, StreamingData, PartialTranslationInfo } from './preview';
-import { translationCache } from './cache';
+import { translationCache, CacheOptions } from './cache';
 import { translationSession } from './session';
+import { describeGlossaryViolation } from './glossaryTerms';
+import { translateFolder } from './batch';
+import { saveTranslation } from './save';
+import { log } from './log';
+import { isMdxPath, parseMarkdownToBlocks, reparseMarkdownBlocks, addLineEdit } from './parser';
+import { EditedLines, ParsedDocument } from './types/block';
 
 interface TranslationState {
   editor: vscode.TextEditor;
@@ -29,27 +36,31 @@ let currentState: TranslationState | undefined;
 let currentPanel: PreviewPanel | undefined;
 let documentWatcher: vscode.Disposable | undefined;
 let documentSaveWatcher: vscode.Disposable | undefined;
-let outputChannel: vscode.OutputChannel | undefined;
 let currentCancellationSource: vscode.CancellationTokenSource | undefined;
 let lastChangedBlockCount: number = 0;
 
 /**
- * Get or create the output channel for logging
+ * Delay after the last edit before changed blocks are counted again
  */
-function getOutputChannel(): vscode.OutputChannel {
-  if (!outputChannel) {
-    outputChannel = vscode.window.createOutputChannel('Markdown AI Translator');
-  }
-  return outputChannel;
-}
+const CHANGE_DETECTION_DELAY_MS = 300;
 
 /**
- * Log a message to the output channel
+ * Log translation warnings and show them in the preview
  */
-function log(message: string): void {
-  const channel = getOutputChannel();
-  const timestamp = new Date().toLocaleTimeString();
-  channel.appendLine(`[${timestamp}] ${message}`);
+function reportTranslationWarnings(panel: PreviewPanel, result: TranslationResult): void {
+  const glossaryWarnings = [...new Set((result.glossaryViolations ?? []).map(describeGlossaryViolation))];
+  const otherWarnings = [...new Set(result.warnings ?? [])];
+  if (glossaryWarnings.length === 0 && otherWarnings.length === 0) {
+    return;
+  }
+
+  for (const warning of glossaryWarnings) {
+    log(`Glossary: ${warning}`);
+  }
+  for (const warning of otherWarnings) {
+    log(`Warning: ${warning}`);
+  }
+  panel.showWarnings([...otherWarnings, ...glossaryWarnings]);
 }
 
 /**
@@ -126,6 +137,17 @@ function getAutoTranslateThreshold(): number {
   return config.get<number>('autoTranslateThreshold', 0);
 }
 
+/**
+ * Get cache expiry and size limits from configuration
+ */
+function getCacheOptions(): CacheOptions {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  return {
+    maxAge: config.get<number>('cacheMaxAgeHours', 168) * 60 * 60 * 1000,
+    maxEntries: config.get<number>('cacheMaxEntries', 10000),
+  };
+}
+
 /**
  * Create partial translation info
  */
@@ -164,6 +186,18 @@ function estimateTranslatedPosition(
 export function activate(context: vscode.ExtensionContext) {
   console.log('Markdown AI Translator is now active');
 
+  // Persist block translations across restarts (read lazily on first use)
+  translationCache.configure(getCacheOptions());
+  translationCache.attachStorage(context.globalStorageUri.fsPath, log);
+  const cacheConfigWatcher = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (
+      event.affectsConfiguration('markdownTranslate.cacheMaxAgeHours') ||
+      event.affectsConfiguration('markdownTranslate.cacheMaxEntries')
+    ) {
+      translationCache.configure(getCacheOptions());
+    }
+  });
+
   // Register main translate command (icon button)
   const translateCommand = vscode.commands.registerCommand(
     'markdownTranslate.translatePreview',
@@ -173,7 +207,7 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      if (editor.document.languageId !== 'markdown') {
+      if (editor.document.languageId !== 'markdown' && editor.document.languageId !== 'mdx') {
         return;
       }
 
@@ -294,10 +328,16 @@ export function activate(context: vscode.ExtensionContext) {
         panel.updateAutoTranslateThreshold(threshold);
       });
 
+      // Set up handler for the save button
+      panel.onSaveTranslation(async () => {
+        await saveCurrentTranslation();
+      });
+
       // Start streaming - show original immediately
       const fileName = editor.document.fileName.split('/').pop() || 'document';
       const chunkSize = getChunkSize();
       const imageBaseUri = panel.getImageBaseUri(editor.document.uri);
+      const mdx = isMdxPath(editor.document.uri.path);
       const debugMode = getDebugMode();
       const autoTranslateThreshold = getAutoTranslateThreshold();
       const streamingData: StreamingData = {
@@ -307,6 +347,7 @@ export function activate(context: vscode.ExtensionContext) {
         targetLanguage,
         chunkSize,
         imageBaseUri,
+        mdx,
         debugMode,
         autoTranslateThreshold,
       };
@@ -337,7 +378,7 @@ export function activate(context: vscode.ExtensionContext) {
               partialTranslation += chunk;
               panel.sendStreamChunk(chunk);
             },
-            { modelId: selectedModelId || undefined }
+            { modelId: selectedModelId || undefined, documentUri: editor.document.uri }
           );
 
           // Check if cancelled
@@ -386,7 +427,8 @@ export function activate(context: vscode.ExtensionContext) {
           }
 
           // End streaming only on success
-          panel.endStreaming();
+          panel.endStreaming(result.translation);
+          reportTranslationWarnings(panel, result);
 
           // Calculate approximate position based on block index
           const blockIndex = result.translatedUpToBlockIndex ?? 0;
@@ -421,6 +463,7 @@ export function activate(context: vscode.ExtensionContext) {
               chunkSize,
               partial,
               imageBaseUri,
+              mdx,
               debugMode,
               autoTranslateThreshold,
             };
@@ -444,7 +487,63 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  context.subscriptions.push(translateCommand, clearCacheCommand);
+  // Register batch folder translation command (explorer context menu and command palette)
+  const translateFolderCommand = vscode.commands.registerCommand(
+    'markdownTranslate.translateFolder',
+    async (folder?: vscode.Uri) => {
+      await translateFolder(context, getEffectiveTargetLanguage(), log, folder);
+    }
+  );
+
+  // Register save translation command
+  const saveTranslationCommand = vscode.commands.registerCommand(
+    'markdownTranslate.saveTranslation',
+    saveCurrentTranslation
+  );
+
+  context.subscriptions.push(
+    translateCommand,
+    clearCacheCommand,
+    translateFolderCommand,
+    saveTranslationCommand,
+    cacheConfigWatcher
+  );
+}
+
+/**
+ * Save the translation shown in the preview to a file
+ */
+async function saveCurrentTranslation(): Promise<void> {
+  if (!currentState || !currentState.translatedFull) {
+    vscode.window.showWarningMessage('There is no translation to save. Translate a Markdown document first.');
+    return;
+  }
+  if (currentState.translatedUpTo < currentState.originalFull.length) {
+    const answer = await vscode.window.showWarningMessage(
+      'The document is only partially translated. Save the partial translation?',
+      { modal: true },
+      'Save'
+    );
+    if (answer !== 'Save') {
+      return;
+    }
+  }
+
+  try {
+    const saved = await saveTranslation(
+      currentState.editor.document,
+      currentState.translatedFull,
+      currentState.targetLanguage,
+      log
+    );
+    if (saved) {
+      log(`Saved translation to ${saved.fsPath}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`Failed to save translation: ${message}`);
+    vscode.window.showErrorMessage(`Failed to save translation: ${message}`);
+  }
 }
 
 async function saveModelSetting(modelId: string): Promise<void> {
@@ -512,6 +611,7 @@ async function reloadTranslation(
     // Start incremental mode - show original immediately
     const chunkSize = getChunkSize();
     const imageBaseUri = panel.getImageBaseUri(editor.document.uri);
+    const mdx = isMdxPath(editor.document.uri.path);
     const debugMode = getDebugMode();
     const autoTranslateThreshold = getAutoTranslateThreshold();
     const incrementalData: StreamingData = {
@@ -521,6 +621,7 @@ async function reloadTranslation(
       targetLanguage,
       chunkSize,
       imageBaseUri,
+      mdx,
       debugMode,
       autoTranslateThreshold,
     };
@@ -550,7 +651,7 @@ async function reloadTranslation(
             progress.report({ message });
             panel.updateIncrementalProgress(message);
           },
-          { modelId: selectedModelId || undefined }
+          { modelId: selectedModelId || undefined, documentUri: editor.document.uri }
         );
 
         const isCancelled = progressToken.isCancellationRequested || currentCancellationSource!.token.isCancellationRequested;
@@ -596,6 +697,7 @@ async function reloadTranslation(
 
           // End incremental mode with translated content
           panel.endIncremental(result.translation);
+          reportTranslationWarnings(panel, result);
 
           // Show preview with partial info if more to translate
           if (result.hasMoreBlocks) {
@@ -609,6 +711,7 @@ async function reloadTranslation(
               chunkSize,
               partial,
               imageBaseUri,
+              mdx,
               debugMode,
               autoTranslateThreshold,
             };
@@ -645,6 +748,7 @@ async function reloadTranslation(
     const fileName = editor.document.fileName.split('/').pop() || 'document';
     const chunkSize = getChunkSize();
     const imageBaseUri = panel.getImageBaseUri(editor.document.uri);
+    const mdx = isMdxPath(editor.document.uri.path);
     const debugMode = getDebugMode();
     const autoTranslateThreshold = getAutoTranslateThreshold();
 
@@ -655,6 +759,7 @@ async function reloadTranslation(
       targetLanguage,
       chunkSize,
       imageBaseUri,
+      mdx,
       debugMode,
       autoTranslateThreshold,
     };
@@ -680,7 +785,7 @@ async function reloadTranslation(
             partialTranslation += chunk;
             panel.sendStreamChunk(chunk);
           },
-          { modelId: selectedModelId || undefined, bypassCache }
+          { modelId: selectedModelId || undefined, bypassCache, documentUri: editor.document.uri }
         );
 
         const isCancelled = progressToken.isCancellationRequested || currentCancellationSource!.token.isCancellationRequested;
@@ -738,7 +843,8 @@ async function reloadTranslation(
         }
 
         // End streaming only on success
-        panel.endStreaming();
+        panel.endStreaming(result.translation);
+        reportTranslationWarnings(panel, result);
 
         // Calculate approximate position based on block index
         const blockIndex = result.translatedUpToBlockIndex ?? 0;
@@ -769,6 +875,7 @@ async function reloadTranslation(
             chunkSize,
             partial,
             imageBaseUri,
+            mdx,
             debugMode,
             autoTranslateThreshold,
           };
@@ -800,6 +907,7 @@ async function continueTranslation(
   const chunkSize = getChunkSize();
   const fileName = editor.document.fileName.split('/').pop() || 'document';
   const imageBaseUri = panel.getImageBaseUri(editor.document.uri);
+  const mdx = isMdxPath(editor.document.uri.path);
   const debugMode = getDebugMode();
   const autoTranslateThreshold = getAutoTranslateThreshold();
 
@@ -814,6 +922,7 @@ async function continueTranslation(
     targetLanguage,
     chunkSize,
     imageBaseUri,
+    mdx,
     existingTranslation,
     debugMode,
     autoTranslateThreshold,
@@ -842,7 +951,7 @@ async function continueTranslation(
           partialTranslation += chunk;
           panel.sendStreamChunk(chunk);
         },
-        { modelId: selectedModelId || undefined }
+        { modelId: selectedModelId || undefined, documentUri: editor.document.uri }
       );
 
       const isCancelled = progressToken.isCancellationRequested || currentCancellationSource!.token.isCancellationRequested;
@@ -872,7 +981,8 @@ async function continueTranslation(
       }
 
       // End streaming
-      panel.endStreaming();
+      panel.endStreaming(result.translation);
+      reportTranslationWarnings(panel, result);
 
       // Calculate approximate position based on block index
       const blockIndex = result.translatedUpToBlockIndex ?? 0;
@@ -900,6 +1010,7 @@ async function continueTranslation(
           chunkSize,
           partial,
           imageBaseUri,
+          mdx,
           debugMode,
           autoTranslateThreshold,
         };
@@ -932,6 +1043,7 @@ async function translateAllRemaining(
 
   const fileName = editor.document.fileName.split('/').pop() || 'document';
   const imageBaseUri = panel.getImageBaseUri(editor.document.uri);
+  const mdx = isMdxPath(editor.document.uri.path);
 
   log('Translating all remaining blocks...');
 
@@ -943,6 +1055,7 @@ async function translateAllRemaining(
     targetLanguage,
     chunkSize,
     imageBaseUri,
+    mdx,
     debugMode,
     autoTranslateThreshold,
   };
@@ -968,7 +1081,7 @@ async function translateAllRemaining(
           partialTranslation += chunk;
           panel.sendStreamChunk(chunk);
         },
-        { modelId: selectedModelId || undefined }
+        { modelId: selectedModelId || undefined, documentUri: editor.document.uri }
       );
 
       const isCancelled = progressToken.isCancellationRequested || currentCancellationSource!.token.isCancellationRequested;
@@ -998,7 +1111,8 @@ async function translateAllRemaining(
       }
 
       // End streaming
-      panel.endStreaming();
+      panel.endStreaming(result.translation);
+      reportTranslationWarnings(panel, result);
 
       // Update state - all content is now translated
       currentState = {
@@ -1015,7 +1129,8 @@ async function translateAllRemaining(
 
 /**
  * Set up document change watcher to detect changes in the source file
- * - onDidChangeTextDocument: Real-time UI update (change count indicator)
+ * - onDidChangeTextDocument: UI update (change count indicator), debounced; only the blocks around
+ *   the edited lines are re-parsed
  * - onDidSaveTextDocument: Auto-translate trigger (only on save)
  */
 function setupDocumentWatcher(document: vscode.TextDocument, panel: PreviewPanel): void {
@@ -1027,18 +1142,28 @@ function setupDocumentWatcher(document: vscode.TextDocument, panel: PreviewPanel
     documentSaveWatcher.dispose();
   }
 
-  // Real-time change detection for UI (shows "X blocks changed" indicator)
-  documentWatcher = vscode.workspace.onDidChangeTextDocument((event) => {
-    // Only watch the specific document
-    if (event.document !== document) {
-      return;
-    }
+  // Current content parsed into blocks, and the lines edited since it was parsed
+  let parsedDocument: ParsedDocument | undefined =
+    translationSession.getState()?.originalContent === document.getText()
+      ? translationSession.getParsedDocument()
+      : undefined;
+  let edited: EditedLines | undefined;
+  let changeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const updateChangedBlockCount = () => {
+    clearTimeout(changeTimer);
+    changeTimer = undefined;
 
     // Check if content has changed from stored state
     if (currentState) {
       const currentContent = document.getText();
+      parsedDocument =
+        parsedDocument && edited
+          ? reparseMarkdownBlocks(parsedDocument, currentContent, edited)
+          : parseMarkdownToBlocks(currentContent, { mdx: isMdxPath(document.uri.path) });
+      edited = undefined;
       // Detect block-level changes
-      const blockDiff = translationSession.detectBlockChanges(currentContent);
+      const blockDiff = translationSession.detectBlockChanges(currentContent, parsedDocument);
       // Get the translated range - only count changes within translated blocks
       const translatedUpToBlockIndex = translationSession.getTranslatedUpToBlockIndex();
       // Filter changes:
@@ -1067,7 +1192,22 @@ function setupDocumentWatcher(document: vscode.TextDocument, panel: PreviewPanel
       lastChangedBlockCount = changedBlockCount;
       panel.notifyDocumentChanged(changedBlockCount);
     }
+  };
+
+  // Change detection for UI (shows "X blocks changed" indicator) once typing pauses
+  const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+    // Only watch the specific document
+    if (event.document !== document || event.contentChanges.length === 0) {
+      return;
+    }
+
+    for (const change of event.contentChanges) {
+      edited = addLineEdit(edited, change.range.start.line, change.range.end.line, change.text.split('\n').length - 1);
+    }
+    clearTimeout(changeTimer);
+    changeTimer = setTimeout(updateChangedBlockCount, CHANGE_DETECTION_DELAY_MS);
   });
+  documentWatcher = vscode.Disposable.from(changeListener, { dispose: () => clearTimeout(changeTimer) });
 
   // Auto-translate trigger on save only
   documentSaveWatcher = vscode.workspace.onDidSaveTextDocument((savedDocument) => {
@@ -1076,6 +1216,11 @@ function setupDocumentWatcher(document: vscode.TextDocument, panel: PreviewPanel
       return;
     }
 
+    // Count the changes of the last edits right away
+    if (changeTimer) {
+      updateChangedBlockCount();
+    }
+
     // Check if auto-translate should trigger
     const threshold = getAutoTranslateThreshold();
     if (threshold > 0 && lastChangedBlockCount >= threshold && !currentCancellationSource && currentState && currentPanel) {
@@ -1085,7 +1230,7 @@ function setupDocumentWatcher(document: vscode.TextDocument, panel: PreviewPanel
   });
 }
 
-export function deactivate() {
+export async function deactivate(): Promise<void> {
   if (documentWatcher) {
     documentWatcher.dispose();
     documentWatcher = undefined;
@@ -1098,5 +1243,7 @@ export function deactivate() {
   currentPanel = undefined;
   lastChangedBlockCount = 0;
   clearTranslationSession();
+  // VS Code waits for the returned promise, so pending cache changes are written
+  await translationCache.flush();
   console.log('Markdown AI Translator is now deactivated');
 }
@@ -0,0 +1,232 @@
+/**
+ * YAML and TOML front matter split into fields
+ * Only the string values of selected top-level keys (the `frontMatterKeys` setting) are
+ * translated; every other line is kept verbatim, so key order and formatting don't change.
+ */
+
+import { generateHash } from './parser';
+import { BlockSegment } from './segments';
+
+/**
+ * How a value is written, which decides how its translation is quoted
+ */
+type ValueStyle = 'plain' | 'double' | 'single' | 'block';
+
+/**
+ * A top-level string value of the front matter
+ */
+export interface FrontMatterField {
+  key: string;
+  /** Unquoted value (block scalars without their indentation) */
+  value: string;
+  style: ValueStyle;
+  /** Index of the key line */
+  line: number;
+  /** Index of the last line of the value (after the key line for block scalars) */
+  endLine: number;
+  /** Text before the value on the key line (e.g. "title: ") */
+  prefix: string;
+  /** Text after the value on the key line (e.g. a comment) */
+  suffix: string;
+  /** Indentation of block scalar lines */
+  indent: string;
+}
+
+/**
+ * Front matter parsed into its lines and string fields
+ */
+export interface ParsedFrontMatter {
+  format: 'yaml' | 'toml';
+  lines: string[];
+  fields: FrontMatterField[];
+}
+
+/**
+ * Characters that can't start a plain YAML scalar
+ */
+const YAML_INDICATOR = /^[-?:,[\]{}#&*!|>'"%@`]/;
+
+/**
+ * Escape sequences of double-quoted strings that stand for another character (others stand for
+ * the escaped character itself)
+ */
+const DOUBLE_QUOTED_ESCAPES: Record<string, string> = { n: '\n', t: '\t' };
+
+/**
+ * Parse a double-quoted value at the start of text
+ * @returns The unescaped value and the length of the quoted string, or undefined if it isn't closed
+ */
+function readDoubleQuoted(text: string): { value: string; length: number } | undefined {
+  const match = text.match(/^"((?:[^"\\]|\\.)*)"/);
+  if (!match) {
+    return undefined;
+  }
+  // One pass, so an escaped backslash followed by "n" stays a backslash and an "n"
+  const value = match[1].replace(/\\(.)/g, (_, char: string) => DOUBLE_QUOTED_ESCAPES[char] ?? char);
+  return { value, length: match[0].length };
+}
+
+function parseYamlField(lines: string[], index: number): FrontMatterField | undefined {
+  const match = lines[index].match(/^([A-Za-z_][\w-]*)([ \t]*:[ \t]*)(.*)$/);
+  if (!match || match[3] === '') {
+    return undefined;
+  }
+  const [, key, separator, rest] = match;
+  const field = { key, line: index, endLine: index, prefix: key + separator, indent: '' };
+
+  // Block scalar (| or >) with its indented lines
+  if (/^[|>][+-]?\d?[ \t]*(?:#.*)?$/.test(rest)) {
+    let endLine = index;
+    for (let i = index + 1; i < lines.length && (lines[i].trim() === '' || /^[ \t]/.test(lines[i])); i++) {
+      if (lines[i].trim() !== '') {
+        endLine = i;
+      }
+    }
+    const valueLines = lines.slice(index + 1, endLine + 1);
+    if (valueLines.length === 0) {
+      return undefined;
+    }
+    const indent = valueLines.find((line) => line.trim() !== '')!.match(/^[ \t]*/)![0];
+    return {
+      ...field,
+      value: valueLines.map((line) => line.slice(indent.length)).join('\n'),
+      style: 'block',
+      endLine,
+      prefix: key + separator + rest,
+      suffix: '',
+      indent,
+    };
+  }
+
+  // Multi-line flow scalars are left alone
+  if (index + 1 < lines.length && /^[ \t]+\S/.test(lines[index + 1]) && !/^[ \t]+-/.test(lines[index + 1])) {
+    return undefined;
+  }
+
+  if (rest.startsWith('"')) {
+    const quoted = readDoubleQuoted(rest);
+    return quoted && { ...field, value: quoted.value, style: 'double', suffix: rest.slice(quoted.length) };
+  }
+  if (rest.startsWith("'")) {
+    const quoted = rest.match(/^'((?:[^']|'')*)'/);
+    return quoted
+      ? { ...field, value: quoted[1].replace(/''/g, "'"), style: 'single', suffix: rest.slice(quoted[0].length) }
+      : undefined;
+  }
+  if (YAML_INDICATOR.test(rest)) {
+    return undefined;
+  }
+  const comment = rest.search(/[ \t]#/);
+  const value = comment === -1 ? rest : rest.slice(0, comment);
+  return { ...field, value: value.trimEnd(), style: 'plain', suffix: rest.slice(value.trimEnd().length) };
+}
+
+function parseTomlField(lines: string[], index: number): FrontMatterField | undefined {
+  const match = lines[index].match(/^([A-Za-z0-9_-]+)([ \t]*=[ \t]*)(.*)$/);
+  if (!match || /^("""|''')/.test(match[3])) {
+    return undefined;
+  }
+  const [, key, separator, rest] = match;
+  const field = { key, line: index, endLine: index, prefix: key + separator, indent: '' };
+
+  if (rest.startsWith('"')) {
+    const quoted = readDoubleQuoted(rest);
+    return quoted && { ...field, value: quoted.value, style: 'double', suffix: rest.slice(quoted.length) };
+  }
+  const literal = rest.match(/^'([^']*)'/);
+  return literal ? { ...field, value: literal[1], style: 'single', suffix: rest.slice(literal[0].length) } : undefined;
+}
+
+/**
+ * Parse a front matter block into its top-level string fields
+ * @returns The parsed front matter, or undefined if the content isn't delimited by --- or +++
+ */
+export function parseFrontMatter(content: string): ParsedFrontMatter | undefined {
+  const lines = content.split('\n');
+  const opener = lines[0].trim();
+  if (lines.length < 2 || (opener !== '---' && opener !== '+++')) {
+    return undefined;
+  }
+
+  const format = opener === '---' ? 'yaml' : 'toml';
+  const fields: FrontMatterField[] = [];
+  for (let i = 1; i < lines.length - 1; i++) {
+    // Keys after the first TOML table header belong to that table
+    if (format === 'toml' && /^\s*\[/.test(lines[i])) {
+      break;
+    }
+    const field = format === 'yaml' ? parseYamlField(lines, i) : parseTomlField(lines, i);
+    if (field) {
+      fields.push(field);
+      i = field.endLine;
+    }
+  }
+  return { format, lines, fields };
+}
+
+/**
+ * Get the fields to translate: fields of the given keys with a value containing letters
+ */
+export function getTranslatableFields(frontMatter: ParsedFrontMatter, keys: string[]): FrontMatterField[] {
+  return frontMatter.fields.filter((field) => keys.includes(field.key) && /\p{L}/u.test(field.value));
+}
+
+/**
+ * Get the values of fields to translate, each text only once
+ */
+export function getFrontMatterSegments(fields: FrontMatterField[]): BlockSegment[] {
+  return [...new Set(fields.map((field) => field.value))].map((value) => ({ content: value, hash: generateHash(value) }));
+}
+
+function escapeDoubleQuoted(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t');
+}
+
+/**
+ * Write a value in the style of the original, quoting it when the style can't hold it
+ */
+function formatValue(field: FrontMatterField, format: ParsedFrontMatter['format'], value: string): string {
+  if (field.style === 'block') {
+    return value
+      .split('\n')
+      .map((line) => (line.trim() === '' ? '' : field.indent + line))
+      .join('\n');
+  }
+
+  const singleLine = value.replace(/\s*\n\s*/g, ' ');
+  if (field.style === 'single' && format === 'yaml') {
+    return `'${singleLine.replace(/'/g, "''")}'`;
+  }
+  if (field.style === 'single' && !singleLine.includes("'")) {
+    return `'${singleLine}'`;
+  }
+  const needsQuotes =
+    YAML_INDICATOR.test(singleLine) || /:[ \t]|[ \t]#|:$/.test(singleLine) || singleLine !== singleLine.trim();
+  if (field.style === 'plain' && !needsQuotes) {
+    return singleLine;
+  }
+  return `"${escapeDoubleQuoted(singleLine)}"`;
+}
+
+/**
+ * Rebuild front matter with translated field values
+ * @param translate - Returns the translation of a field value, or undefined to keep it
+ */
+export function serializeFrontMatter(
+  frontMatter: ParsedFrontMatter,
+  translate: (field: FrontMatterField) => string | undefined
+): string {
+  const lines = [...frontMatter.lines];
+  // Replace from the end so earlier line indices stay valid
+  for (const field of [...frontMatter.fields].reverse()) {
+    const translation = translate(field);
+    if (translation === undefined) {
+      continue;
+    }
+    const value = formatValue(field, frontMatter.format, translation);
+    const replacement =
+      field.style === 'block' ? [field.prefix, ...value.split('\n')] : [field.prefix + value + field.suffix];
+    lines.splice(field.line, field.endLine - field.line + 1, ...replacement);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,38 @@
+/**
+ * Glossary / terminology enforcement
+ * Terms come from the `markdownTranslate.glossary` setting and an optional workspace glossary file
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GlossaryData, GlossaryTerm, resolveGlossaryTerms } from './glossaryTerms';
+import { logError } from './log';
+
+/**
+ * Load glossary terms for a target language from settings and the workspace glossary file
+ */
+export async function loadGlossary(targetLanguage: string, documentUri?: vscode.Uri): Promise<GlossaryTerm[]> {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  const sources: GlossaryData[] = [];
+
+  const glossaryFile = config.get<string>('glossaryFile', '.markdown-translations/glossary.json');
+  const folder =
+    (documentUri && vscode.workspace.getWorkspaceFolder(documentUri)) ||
+    vscode.workspace.workspaceFolders?.[0];
+  if (glossaryFile && folder && folder.uri.scheme === 'file') {
+    const filePath = path.resolve(folder.uri.fsPath, glossaryFile);
+    try {
+      sources.push(JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as GlossaryData);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logError(`Failed to read glossary file ${filePath}`, error);
+      }
+    }
+  }
+
+  // Settings override the workspace file
+  sources.push(config.get<GlossaryData>('glossary', {}));
+
+  return resolveGlossaryTerms(sources, targetLanguage);
+}
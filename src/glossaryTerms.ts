@@ -0,0 +1,135 @@
+/**
+ * Glossary terms: resolving them for a target language, formatting them for prompts
+ * and checking translations against them
+ */
+
+import { MarkdownBlock } from './types/block';
+import { getLanguageCode } from './language';
+import { isPassthroughBlock } from './blocks';
+
+/**
+ * Glossary data: language -> (source term -> required target term)
+ * The "*" language applies to every target language (e.g. product names that must never be translated).
+ */
+export type GlossaryData = Record<string, Record<string, string>>;
+
+/**
+ * A single glossary term for the current target language
+ */
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+/**
+ * A block whose source contains a glossary term while its translation lacks the required target term
+ */
+export interface GlossaryViolation {
+  /** Index of the block in the document (undefined for whole-document checks) */
+  blockIndex?: number;
+  source: string;
+  target: string;
+}
+
+/**
+ * Pick the terms that apply to a target language
+ * Language keys match either the language name or its code ("Japanese" / "ja").
+ * Later sources override earlier ones for the same source term.
+ */
+export function resolveGlossaryTerms(sources: GlossaryData[], targetLanguage: string): GlossaryTerm[] {
+  const targetCode = getLanguageCode(targetLanguage).toLowerCase();
+  const terms = new Map<string, string>();
+
+  for (const data of sources) {
+    for (const [language, entries] of Object.entries(data)) {
+      if (!entries || typeof entries !== 'object') continue;
+      if (language !== '*' && getLanguageCode(language).toLowerCase() !== targetCode) continue;
+
+      for (const [source, target] of Object.entries(entries)) {
+        if (source.trim() && typeof target === 'string' && target.trim()) {
+          terms.set(source.trim(), target.trim());
+        }
+      }
+    }
+  }
+
+  return [...terms].map(([source, target]) => ({ source, target }));
+}
+
+/**
+ * Format glossary terms as a prompt section (empty string when there are no terms)
+ */
+export function formatGlossaryForPrompt(terms: GlossaryTerm[]): string {
+  if (terms.length === 0) {
+    return '';
+  }
+
+  const lines = terms.map((term) =>
+    term.source === term.target
+      ? `- ${term.source} → ${term.target} (do not translate)`
+      : `- ${term.source} → ${term.target}`
+  );
+  return `[Glossary - always translate these terms exactly as listed]\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check whether text contains a term as a whole word (case-insensitive)
+ */
+function containsTerm(text: string, term: string): boolean {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu');
+  return pattern.test(text);
+}
+
+/**
+ * Find glossary terms present in the source but missing their target term in the translation
+ */
+export function findGlossaryViolations(
+  source: string,
+  translation: string,
+  terms: GlossaryTerm[]
+): GlossaryViolation[] {
+  const lowerTranslation = translation.toLowerCase();
+  return terms
+    .filter((term) => containsTerm(source, term.source) && !lowerTranslation.includes(term.target.toLowerCase()))
+    .map((term) => ({ source: term.source, target: term.target }));
+}
+
+/**
+ * Check translated blocks against the glossary
+ */
+export function checkBlockGlossary(
+  blocks: MarkdownBlock[],
+  translations: Map<string, string>,
+  terms: GlossaryTerm[]
+): GlossaryViolation[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const violations: GlossaryViolation[] = [];
+  for (const block of blocks) {
+    const translation = translations.get(block.hash);
+    if (translation === undefined || isPassthroughBlock(block)) {
+      continue;
+    }
+    for (const violation of findGlossaryViolations(block.content, translation, terms)) {
+      violations.push({ ...violation, blockIndex: block.index });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Format a violation for logs and the preview
+ */
+export function describeGlossaryViolation(violation: GlossaryViolation): string {
+  const location = violation.blockIndex !== undefined ? `Block ${violation.blockIndex + 1}` : 'Document';
+  return `${location}: "${violation.source}" should be translated as "${violation.target}"`;
+}
@@ -0,0 +1,187 @@
+/**
+ * HTML blocks (and MDX JSX blocks) split into text and attribute values
+ * Text between block-level tags (with the inline tags inside it) and the values of selected
+ * attributes are translated; tags, comments, entities, {expressions} and whitespace are kept as they are.
+ */
+
+import { generateHash } from './parser';
+import { BlockSegment, SegmentedBlock } from './segments';
+
+/**
+ * A piece of an HTML block
+ */
+export interface HtmlToken {
+  type: 'tag' | 'comment' | 'expression' | 'text' | 'raw';
+  text: string;
+  /** Lowercase tag name (tags only) */
+  name?: string;
+}
+
+/**
+ * Tags that stay inside the text around them instead of splitting it
+ */
+const INLINE_TAGS: ReadonlySet<string> = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i', 'img', 'ins',
+  'kbd', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+/**
+ * Elements whose content is never translated
+ */
+const RAW_TAGS: ReadonlySet<string> = new Set(['script', 'style', 'pre', 'textarea']);
+
+/**
+ * Comments, declarations, processing instructions and CDATA, then tags (with JSX component
+ * names, {expression} props and fragments)
+ */
+const HTML_TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<![A-Za-z[][\s\S]*?>|<\?[\s\S]*?\?>|<\/?>|<\/?([A-Za-z][\w.:-]*)(?:\s+(?:[^<>"'{}]|"[^"]*"|'[^']*'|\{(?:[^{}]|\{[^{}]*\})*\})*)?\/?>/g;
+
+/**
+ * HTML tokens plus JSX {expressions} (up to two levels of nested braces)
+ */
+const JSX_TOKEN_PATTERN = new RegExp(
+  `${HTML_TOKEN_PATTERN.source}|\\{(?:[^{}]|\\{(?:[^{}]|\\{[^{}]*\\})*\\})*\\}`,
+  'g'
+);
+
+/**
+ * Attributes with a quoted or unquoted value ({expression} props are never matched)
+ */
+const ATTRIBUTE_PATTERN = /(\s)([^\s"'<>/={}]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`{}]+))/g;
+
+/**
+ * Options for HTML tokenizing
+ */
+export interface HtmlOptions {
+  /** Treat the content as MDX JSX, where {expressions} are kept as they are */
+  jsx?: boolean;
+}
+
+/**
+ * Split an HTML block into tags, comments, expressions, text and raw element content
+ */
+export function tokenizeHtml(content: string, options: HtmlOptions = {}): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  let rawTag: string | undefined;
+  let position = 0;
+
+  const pushText = (text: string) => {
+    if (text !== '') {
+      tokens.push({ type: rawTag ? 'raw' : 'text', text });
+    }
+  };
+
+  for (const match of content.matchAll(options.jsx ? JSX_TOKEN_PATTERN : HTML_TOKEN_PATTERN)) {
+    const name = match[1]?.toLowerCase();
+    const closing = match[0].startsWith('</');
+    // Inside raw elements everything up to the closing tag is content
+    if (rawTag && !(closing && name === rawTag)) {
+      continue;
+    }
+    pushText(content.slice(position, match.index));
+    if (rawTag) {
+      rawTag = undefined;
+    }
+    if (name) {
+      tokens.push({ type: 'tag', text: match[0], name });
+    } else {
+      tokens.push({ type: match[0].startsWith('{') ? 'expression' : 'comment', text: match[0] });
+    }
+    if (name && !closing && RAW_TAGS.has(name) && !match[0].endsWith('/>')) {
+      rawTag = name;
+    }
+    position = match.index! + match[0].length;
+  }
+  pushText(content.slice(position));
+
+  return tokens;
+}
+
+/**
+ * Split an HTML block into translatable text (segments) and markup (literals)
+ * Joining the parts rebuilds the block.
+ */
+export function segmentHtml(content: string, options: HtmlOptions = {}): SegmentedBlock {
+  const parts: Array<string | BlockSegment> = [];
+  let group: HtmlToken[] = [];
+
+  const flush = () => {
+    const text = group.map((token) => token.text).join('');
+    const hasLetters = group.some((token) => token.type === 'text' && /\p{L}/u.test(token.text));
+    group = [];
+    if (!hasLetters) {
+      parts.push(text);
+      return;
+    }
+    const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    parts.push(leading, { content: core, hash: generateHash(core) }, trailing);
+  };
+
+  for (const token of tokenizeHtml(content, options)) {
+    if (token.type === 'text' || (token.type === 'tag' && INLINE_TAGS.has(token.name!))) {
+      group.push(token);
+      continue;
+    }
+    flush();
+    parts.push(token.text);
+  }
+  flush();
+
+  const merged: Array<string | BlockSegment> = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (typeof part === 'string' && typeof last === 'string') {
+      merged[merged.length - 1] = last + part;
+    } else if (part !== '') {
+      merged.push(part);
+    }
+  }
+  return { parts: merged, segments: merged.filter((part): part is BlockSegment => typeof part !== 'string') };
+}
+
+/**
+ * Get the values of the given attributes that contain letters, each value only once
+ */
+export function getHtmlAttributeSegments(content: string, names: string[], options: HtmlOptions = {}): BlockSegment[] {
+  const values = new Set<string>();
+  for (const token of tokenizeHtml(content, options)) {
+    if (token.type !== 'tag') {
+      continue;
+    }
+    for (const match of token.text.matchAll(ATTRIBUTE_PATTERN)) {
+      const value = match[4] ?? match[5] ?? match[6];
+      if (names.includes(match[2].toLowerCase()) && /\p{L}/u.test(value)) {
+        values.add(value);
+      }
+    }
+  }
+  return [...values].map((value) => ({ content: value, hash: generateHash(value) }));
+}
+
+/**
+ * Replace the values of the given attributes in every tag of an HTML block
+ * Quotes are kept; quote characters in a translation are written as entities.
+ * @param translate - Returns the translation of a value, or undefined to keep it
+ */
+export function translateHtmlAttributes(
+  content: string,
+  names: string[],
+  translate: (value: string) => string | undefined,
+  options: HtmlOptions = {}
+): string {
+  const translateAttribute = (attribute: string, space: string, name: string, equals: string, ...values: unknown[]) => {
+    const [double, single, bare] = values as Array<string | undefined>;
+    const translation = names.includes(name.toLowerCase()) ? translate(double ?? single ?? bare!) : undefined;
+    if (translation === undefined) {
+      return attribute;
+    }
+    const value =
+      single !== undefined ? `'${translation.replace(/'/g, '&#39;')}'` : `"${translation.replace(/"/g, '&quot;')}"`;
+    return space + name + equals + value;
+  };
+
+  return tokenizeHtml(content, options)
+    .map((token) => (token.type === 'tag' ? token.text.replace(ATTRIBUTE_PATTERN, translateAttribute) : token.text))
+    .join('');
+}
@@ -0,0 +1,40 @@
+/**
+ * Target language helpers
+ */
+
+/**
+ * Short codes for the preset target languages
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+  Japanese: 'ja',
+  'Chinese (Simplified)': 'zh-CN',
+  'Chinese (Traditional)': 'zh-TW',
+  Korean: 'ko',
+  Vietnamese: 'vi',
+  English: 'en',
+};
+
+/**
+ * Get the codes of the preset target languages
+ */
+export function getPresetLanguageCodes(): string[] {
+  return Object.values(LANGUAGE_CODES);
+}
+
+/**
+ * Get a file-name friendly code for a target language
+ * Preset languages map to their ISO code, custom languages are slugified ("Brazilian Portuguese" -> "brazilian-portuguese")
+ */
+export function getLanguageCode(targetLanguage: string): string {
+  const preset = LANGUAGE_CODES[targetLanguage];
+  if (preset) {
+    return preset;
+  }
+
+  const slug = targetLanguage
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'custom';
+}
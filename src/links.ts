@@ -0,0 +1,83 @@
+/**
+ * Relative links between Markdown documents
+ * A translation saved elsewhere than its source (e.g. ja/guide.md or guide.ja.md) rewrites its
+ * relative links to .md/.mdx files so they point at the translated documents, or at the original
+ * ones from the new location when there is no translation.
+ */
+
+import * as path from 'path';
+import { parseMarkdownToBlocks, restoreLineEndings, ParseOptions } from './parser';
+import { isPassthroughBlock } from './blocks';
+
+/**
+ * Code spans (kept as they are), then inline link destinations, HTML href values and link
+ * reference definitions
+ */
+const LINK_PATTERN = /(`+)[\s\S]*?\1|(\]\([ \t]*|href=["']|^ {0,3}\[[^\]]+\]:[ \t]*)(<[^>\n]*>|[^\s)"'>]+)/gm;
+
+/**
+ * Relative paths of Markdown documents, with an optional #fragment or ?query
+ */
+const MARKDOWN_PATH = /^(?![a-z][a-z\d+.-]*:|\/|#)([^#?]*\.(?:md|mdx|markdown))([#?].*)?$/i;
+
+/**
+ * Rewrite the relative links to Markdown documents of a document (outside of code)
+ * @param rewrite - Gets the decoded link path (without fragment) and returns the new path, or undefined to keep it
+ */
+export function rewriteMarkdownLinks(
+  markdown: string,
+  rewrite: (linkPath: string) => string | undefined,
+  options: ParseOptions = {}
+): string {
+  const replaceLink = (match: string, _code: string, prefix: string | undefined, destination: string) => {
+    if (prefix === undefined) {
+      return match;
+    }
+    const angled = destination.startsWith('<');
+    const parts = (angled ? destination.slice(1, -1) : destination).match(MARKDOWN_PATH);
+    if (!parts) {
+      return match;
+    }
+    let linkPath = parts[1];
+    try {
+      linkPath = decodeURI(linkPath);
+    } catch {
+      // Malformed escapes are used as written
+    }
+    const rewritten = rewrite(linkPath);
+    if (rewritten === undefined || rewritten === linkPath) {
+      return match;
+    }
+    const encoded = parts[1] !== linkPath || (!angled && /\s/.test(rewritten)) ? encodeURI(rewritten) : rewritten;
+    const newTarget = encoded + (parts[2] ?? '');
+    return prefix + (angled ? `<${newTarget}>` : newTarget);
+  };
+
+  const document = parseMarkdownToBlocks(markdown, options);
+  const content = document.blocks
+    .map((block) =>
+      isPassthroughBlock(block) && block.type !== 'link_reference_definition'
+        ? block.content
+        : block.content.replace(LINK_PATTERN, replaceLink)
+    )
+    .join('\n');
+  return restoreLineEndings(content, document.lineEnding);
+}
+
+/**
+ * Resolve a relative link of a document to a workspace-relative path
+ * @returns The path, or undefined if it leaves the workspace
+ */
+export function resolveLinkPath(documentPath: string, linkPath: string): string | undefined {
+  const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(documentPath), linkPath));
+  return resolved === '..' || resolved.startsWith('../') ? undefined : resolved;
+}
+
+/**
+ * Get a relative link from one workspace-relative document to another
+ * The "./" style of the original link is kept.
+ */
+export function getRelativeLink(fromPath: string, toPath: string, originalLink: string): string {
+  const relative = path.posix.relative(path.posix.dirname(fromPath), toPath);
+  return originalLink.startsWith('./') && !relative.startsWith('../') ? `./${relative}` : relative;
+}
@@ -0,0 +1,33 @@
+/**
+ * Logging to the extension's output channel
+ */
+
+import * as vscode from 'vscode';
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Get or create the output channel for logging
+ */
+export function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('Markdown AI Translator');
+  }
+  return outputChannel;
+}
+
+/**
+ * Log a message to the output channel
+ */
+export function log(message: string): void {
+  const channel = getOutputChannel();
+  const timestamp = new Date().toLocaleTimeString();
+  channel.appendLine(`[${timestamp}] ${message}`);
+}
+
+/**
+ * Log a failed operation with the error message
+ */
+export function logError(message: string, error: unknown): void {
+  log(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+}
@@ -0,0 +1,188 @@
+/**
+ * Workspace translation memory
+ * Stores block translations in `<workspace>/.markdown-translations/<lang>.json` so a team can share them through git
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarkdownBlock } from './types/block';
+import { getLanguageCode } from './language';
+import { isPassthroughBlock } from './blocks';
+import { log, logError } from './log';
+
+/**
+ * A single remembered translation
+ */
+interface MemoryEntry {
+  /** Source block content (kept for reviewers, not used for lookups) */
+  source: string;
+  /** Translated block content */
+  translation: string;
+}
+
+/**
+ * Serialize memory entries deterministically: keys sorted by hash, fixed field order,
+ * one field per line and a trailing newline so diffs and merges stay small
+ */
+export function serializeTranslationMemory(entries: Record<string, MemoryEntry>): string {
+  const sorted: Record<string, MemoryEntry> = {};
+  for (const hash of Object.keys(entries).sort()) {
+    const { source, translation } = entries[hash];
+    sorted[hash] = { source, translation };
+  }
+  return JSON.stringify(sorted, null, 2) + '\n';
+}
+
+/**
+ * Last started record per memory file, so read-modify-write cycles on a file run one after another
+ * (instances are created per request, so this is shared by all of them)
+ */
+const pendingRecords = new Map<string, Promise<void>>();
+
+export class TranslationMemory {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Path of the memory file for a target language
+   */
+  getFilePath(targetLanguage: string): string {
+    return path.join(this.directory, `${getLanguageCode(targetLanguage)}.json`);
+  }
+
+  /**
+   * Look up remembered translations by source block hash
+   */
+  async lookup(sourceHashes: string[], targetLanguage: string): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    const entries = await this.read(targetLanguage);
+    if (!entries) {
+      return result;
+    }
+
+    for (const hash of sourceHashes) {
+      const entry = entries[hash];
+      if (entry && typeof entry.translation === 'string') {
+        result.set(hash, entry.translation);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Add translations of the given blocks to the memory file
+   * The file is re-read before writing so entries added by others are kept
+   */
+  async record(
+    blocks: MarkdownBlock[],
+    translations: Map<string, string>,
+    targetLanguage: string
+  ): Promise<void> {
+    const filePath = this.getFilePath(targetLanguage);
+    const write = (pendingRecords.get(filePath) ?? Promise.resolve()).then(() =>
+      this.writeRecord(blocks, translations, targetLanguage)
+    );
+    pendingRecords.set(filePath, write);
+    try {
+      await write;
+    } finally {
+      if (pendingRecords.get(filePath) === write) {
+        pendingRecords.delete(filePath);
+      }
+    }
+  }
+
+  private async writeRecord(
+    blocks: MarkdownBlock[],
+    translations: Map<string, string>,
+    targetLanguage: string
+  ): Promise<void> {
+    const entries = await this.read(targetLanguage);
+    if (!entries) {
+      // Unreadable file (e.g. unresolved merge conflict) - never overwrite it
+      return;
+    }
+
+    let changed = false;
+    for (const block of blocks) {
+      // Passthrough blocks translate to their source content and aren't worth remembering
+      if (isPassthroughBlock(block)) {
+        continue;
+      }
+      const translation = translations.get(block.hash);
+      if (translation === undefined) {
+        continue;
+      }
+      const existing = entries[block.hash];
+      if (existing && existing.source === block.content && existing.translation === translation) {
+        continue;
+      }
+      entries[block.hash] = { source: block.content, translation };
+      changed = true;
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.writeFile(
+        this.getFilePath(targetLanguage),
+        serializeTranslationMemory(entries),
+        'utf-8'
+      );
+    } catch (error) {
+      logError('Failed to write translation memory', error);
+    }
+  }
+
+  /**
+   * Read the memory file for a language
+   * @returns Entries (empty if the file doesn't exist yet), or undefined if the file is invalid
+   */
+  private async read(targetLanguage: string): Promise<Record<string, MemoryEntry> | undefined> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(this.getFilePath(targetLanguage), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      logError('Failed to read translation memory', error);
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, MemoryEntry>;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    log(`Invalid translation memory file: ${this.getFilePath(targetLanguage)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Get the translation memory for the workspace containing a document
+ * @returns undefined when the memory is disabled or there is no workspace folder
+ */
+export function getTranslationMemory(documentUri?: vscode.Uri): TranslationMemory | undefined {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  if (!config.get<boolean>('translationMemory', false)) {
+    return undefined;
+  }
+
+  const folder =
+    (documentUri && vscode.workspace.getWorkspaceFolder(documentUri)) ||
+    vscode.workspace.workspaceFolders?.[0];
+  if (!folder || folder.uri.scheme !== 'file') {
+    return undefined;
+  }
+
+  const directory = config.get<string>('translationMemoryPath', '.markdown-translations');
+  return new TranslationMemory(path.resolve(folder.uri.fsPath, directory));
+}
@@ -0,0 +1,237 @@
+/**
+ * Mermaid diagram labels
+ * Node and edge labels, messages, notes and titles of flowchart, sequence and class diagrams are
+ * translated; IDs, arrows, styles and directives are kept as they are, so the translated diagram
+ * renders with the same layout.
+ */
+
+import { generateHash } from './parser';
+import { CodeSegment, SegmentedCode, getCodeLanguage, splitCodeFence, mergeCodeParts } from './codeComments';
+
+type DiagramType = 'flowchart' | 'sequence' | 'class';
+
+/**
+ * Position of a label in a line
+ */
+interface LabelRange {
+  start: number;
+  end: number;
+  /** Characters the label can't contain */
+  delimiter: string;
+}
+
+/**
+ * Node id followed by the opening of a node shape (longest openings first)
+ */
+const NODE_SHAPE = /([A-Za-z0-9_]+)(\(\(\(|\(\[|\(\(|\[\[|\[\(|\{\{|\[\/|\[\\|\[|\(|\{|>)/y;
+
+const SHAPE_CLOSERS: Record<string, string[]> = {
+  '(((': [')))'],
+  '([': ['])'],
+  '((': ['))'],
+  '[[': [']]'],
+  '[(': [')]'],
+  '{{': ['}}'],
+  '[/': ['/]', '\\]'],
+  '[\\': ['\\]', '/]'],
+  '[': [']'],
+  '(': [')'],
+  '{': ['}'],
+  '>': [']'],
+};
+
+/**
+ * Text on a link between its two halves (e.g. "-- yes -->" or "-. maybe .->")
+ */
+const LINK_TEXT = /(--|==|-\.)[ \t]+([^-=.>|\s][^|]*?)[ \t]+(?:-{2,}[>xo]?|={2,}[>xo]?|\.-+[>xo]?)/y;
+
+/**
+ * Lines that only hold IDs, styles or directives, per diagram type
+ */
+const SKIPPED_LINES: Record<DiagramType, RegExp> = {
+  flowchart: /^\s*(?:%%|(?:flowchart|graph|classDef|class|style|linkStyle|click|direction|end)\b)/,
+  sequence: /^\s*(?:%%|(?:sequenceDiagram|autonumber|activate|deactivate|end|rect|box|create|destroy|links?)\b)/,
+  class: /^\s*(?:%%|(?:classDiagram(?:-v2)?|classDef|cssClass|style|click|callback|link|direction|namespace)\b)/,
+};
+
+/**
+ * Class diagram relation arrows
+ */
+const CLASS_RELATION = /<\|--|\*--|o--|<--|<\|\.\.|<\.\.|--\|>|--\*|--o|-->|\.\.\|>|\.\.>|--|\.\./;
+
+/**
+ * Lines that end with a label, per diagram type: the first group is the fixed start of the line
+ */
+const LABEL_LINES: Record<DiagramType, RegExp[]> = {
+  flowchart: [],
+  sequence: [
+    /^(\s*(?:participant|actor)\s+\S+\s+as\s+)(.*)$/,
+    /^(\s*note\s+(?:left of|right of|over)\s+[^:]+:)(.*)$/i,
+    /^(\s*[^\s:]+?\s*-{1,2}(?:>>|>|x|\))[+-]?\s*[^\s:]+\s*:)(.*)$/,
+    /^(\s*(?:loop|alt|else|opt|par|and|critical|option|break)\b)(.*)$/,
+    /^(\s*title\b:?)(.*)$/,
+  ],
+  class: [new RegExp(`^(\\s*\\S+\\s*(?:"[^"]*"\\s*)?(?:${CLASS_RELATION.source})\\s*(?:"[^"]*"\\s*)?\\S+\\s*:)(.*)$`)],
+};
+
+/**
+ * Lines with a quoted label, per diagram type: the label is the second group
+ */
+const QUOTED_LABEL_LINES: Record<DiagramType, RegExp[]> = {
+  flowchart: [/^(\s*subgraph\s+[\w-]+\s*\["?)([^"\]]*)("?\]\s*)$/],
+  sequence: [],
+  class: [/^(\s*class\s+[\w~<>,]+\s*\[")([^"]*)("\].*)$/, /^(\s*note\s+(?:for\s+\S+\s+)?")([^"]*)("\s*)$/],
+};
+
+/**
+ * Accessibility title and description, in every diagram type
+ */
+const ACCESSIBILITY_LINE = /^(\s*acc(?:Title|Descr)\s*:)(.*)$/;
+
+/**
+ * Get the type of a diagram from its first statement (after front matter and comments)
+ */
+function getDiagramType(lines: string[]): DiagramType | undefined {
+  let inFrontMatter = lines[0]?.trim() === '---';
+  for (const line of lines.slice(inFrontMatter ? 1 : 0)) {
+    if (inFrontMatter) {
+      inFrontMatter = line.trim() !== '---';
+      continue;
+    }
+    if (line.trim() === '' || line.trim().startsWith('%%')) {
+      continue;
+    }
+    const keyword = line.trim().split(/\s/)[0];
+    if (keyword === 'flowchart' || keyword === 'graph') {
+      return 'flowchart';
+    }
+    if (keyword === 'sequenceDiagram') {
+      return 'sequence';
+    }
+    return keyword === 'classDiagram' || keyword === 'classDiagram-v2' ? 'class' : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Find node labels, link labels (|text| and -- text -->) in a flowchart statement
+ */
+function getFlowchartRanges(line: string): LabelRange[] {
+  const ranges: LabelRange[] = [];
+  let i = 0;
+  while (i < line.length) {
+    NODE_SHAPE.lastIndex = i;
+    LINK_TEXT.lastIndex = i;
+    const node = /\w/.test(line[i - 1] ?? '') ? null : NODE_SHAPE.exec(line);
+    const link = node ? null : LINK_TEXT.exec(line);
+
+    if (node) {
+      const opener = node[2];
+      const start = i + node[0].length;
+      if (line[start] === '"') {
+        const end = line.indexOf('"', start + 1);
+        if (end !== -1) {
+          ranges.push({ start: start + 1, end, delimiter: '"' });
+          i = end + 1;
+          continue;
+        }
+      }
+      const ends = SHAPE_CLOSERS[opener].map((closer) => line.indexOf(closer, start)).filter((end) => end !== -1);
+      if (ends.length > 0) {
+        const end = Math.min(...ends);
+        ranges.push({ start, end, delimiter: `${opener}${SHAPE_CLOSERS[opener].join('')}"` });
+        i = end;
+        continue;
+      }
+      i = start;
+    } else if (link) {
+      const start = i + link[0].indexOf(link[2], link[1].length);
+      ranges.push({ start, end: start + link[2].length, delimiter: '|"' });
+      i += link[0].length;
+    } else if (line[i] === '|' && /[->=.ox]$/.test(line.slice(0, i).trimEnd())) {
+      const end = line.indexOf('|', i + 1);
+      if (end === -1) {
+        break;
+      }
+      ranges.push({ start: i + 1, end, delimiter: '|"' });
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Find the labels in a diagram statement
+ */
+function getLabelRanges(line: string, type: DiagramType): LabelRange[] {
+  const accessibility = line.match(ACCESSIBILITY_LINE);
+  if (accessibility) {
+    return [{ start: accessibility[1].length, end: line.length, delimiter: '' }];
+  }
+  for (const pattern of QUOTED_LABEL_LINES[type]) {
+    const match = line.match(pattern);
+    if (match) {
+      return [{ start: match[1].length, end: match[1].length + match[2].length, delimiter: '"[]' }];
+    }
+  }
+  if (SKIPPED_LINES[type].test(line)) {
+    return [];
+  }
+  for (const pattern of LABEL_LINES[type]) {
+    const match = line.match(pattern);
+    if (match) {
+      return [{ start: match[1].length, end: line.length, delimiter: ';' }];
+    }
+  }
+  return type === 'flowchart' ? getFlowchartRanges(line) : [];
+}
+
+/**
+ * Split a Mermaid code block into translatable labels and the diagram syntax around them
+ * @returns The segmented block, or undefined if the block isn't a flowchart, sequence or class diagram
+ */
+export function segmentMermaidBlock(content: string): SegmentedCode | undefined {
+  const fenced = splitCodeFence(content);
+  if (!fenced || getCodeLanguage(content) !== 'mermaid') {
+    return undefined;
+  }
+  const lines = fenced.body.split('\n');
+  const type = getDiagramType(lines);
+  if (!type) {
+    return undefined;
+  }
+
+  const parts: Array<string | CodeSegment> = [fenced.opening];
+  let inFrontMatter = lines[0].trim() === '---';
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      parts.push('\n');
+    }
+
+    let ranges: LabelRange[];
+    if (inFrontMatter) {
+      inFrontMatter = index === 0 || line.trim() !== '---';
+      const title = line.match(/^(\s*title\s*:\s*(["']?))(.*?)\2\s*$/);
+      ranges = title ? [{ start: title[1].length, end: title[1].length + title[3].length, delimiter: title[2] }] : [];
+    } else {
+      ranges = getLabelRanges(line, type);
+    }
+
+    let position = 0;
+    for (const { start, end, delimiter } of ranges) {
+      const [, leading, text, trailing] = line.slice(start, end).match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      if (!/\p{L}/u.test(text)) {
+        continue;
+      }
+      const segment: CodeSegment = { content: text, hash: generateHash(text), kind: 'label', multiline: false };
+      parts.push(line.slice(position, start) + leading, delimiter ? { ...segment, delimiter } : segment, trailing);
+      position = end;
+    }
+    parts.push(line.slice(position));
+  });
+  parts.push(fenced.closing);
+
+  return mergeCodeParts(parts);
+}
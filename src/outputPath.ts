@@ -0,0 +1,97 @@
+/**
+ * Output path patterns for saved translations
+ * Patterns use `{variable}` placeholders, e.g. `{dir}/{name}.{lang}{ext}` or `{root}/{lang}/{path}`.
+ */
+
+import * as path from 'path';
+
+/**
+ * Values available in output path patterns (all workspace-relative, using forward slashes)
+ */
+export interface OutputPathVariables {
+  /** Directory of the source file */
+  dir: string;
+  /** File name without extension */
+  name: string;
+  /** Extension including the dot (e.g. ".md") */
+  ext: string;
+  /** Target language code (e.g. "ja") */
+  lang: string;
+  /** Folder being translated (batch translation only) */
+  root?: string;
+  /** Path of the source file relative to root, including the extension (batch translation only) */
+  path?: string;
+}
+
+/**
+ * Build the variables for a workspace-relative source path
+ * @param root - Folder whose structure is mirrored (defaults to the file's directory)
+ */
+export function getOutputPathVariables(sourcePath: string, lang: string, root?: string): OutputPathVariables {
+  const source = toPosix(sourcePath);
+  const ext = path.posix.extname(source);
+  const dir = path.posix.dirname(source);
+  const base = toPosix(root ?? dir);
+  return {
+    dir,
+    name: path.posix.basename(source, ext),
+    ext,
+    lang,
+    root: base,
+    path: path.posix.relative(base, source),
+  };
+}
+
+/**
+ * Resolve an output path pattern
+ * @returns Normalized workspace-relative path
+ * @throws If the pattern uses an unknown variable or resolves outside the workspace
+ */
+export function formatOutputPath(pattern: string, variables: OutputPathVariables): string {
+  const values: Record<string, string | undefined> = { ...variables };
+  const resolved = pattern.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`Unknown variable {${name}} in output path pattern "${pattern}"`);
+    }
+    return value;
+  });
+
+  const normalized = path.posix.normalize(toPosix(resolved)).replace(/^(\.\/)+/, '');
+  if (normalized === '..' || normalized.startsWith('../') || path.posix.isAbsolute(normalized)) {
+    throw new Error(`Output path pattern "${pattern}" resolves outside the workspace: ${normalized}`);
+  }
+  return normalized;
+}
+
+/**
+ * Find the source paths that are outputs of other source paths in one of the languages
+ * (e.g. docs/ko/intro.md is the Korean output of docs/intro.md with `{root}/{lang}/{path}`)
+ */
+export function findOutputPaths(sourcePaths: string[], pattern: string, langs: string[], root: string): Set<string> {
+  const sources = new Set(sourcePaths);
+  const outputs = new Set<string>();
+  for (const source of sourcePaths) {
+    for (const lang of langs) {
+      const output = formatOutputPath(pattern, getOutputPathVariables(source, lang, root));
+      if (sources.has(output)) {
+        outputs.add(output);
+      }
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Get the folder part of a glob before its first wildcard segment (e.g. "docs/**\/*.md" -> "docs")
+ */
+export function getGlobBase(glob: string): string {
+  const segments = toPosix(glob).split('/');
+  const wildcardIndex = segments.findIndex((segment) => /[*?[\]{}]/.test(segment));
+  const base = wildcardIndex === -1 ? segments.slice(0, -1) : segments.slice(0, wildcardIndex);
+  return base.join('/') || '.';
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
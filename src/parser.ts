@@ -1,330 +1,909 @@
 /**
  * Markdown block parser
  * Parses Markdown content into discrete blocks for incremental translation
+ *
+ * Blocks follow the top-level block structure of CommonMark (plus GFM tables and alerts, container
+ * directives, footnote definitions, display math, front matter and MDX): every top-level container
+ * or leaf block becomes one block, and runs of blank lines between them become `blank_lines` blocks.
  */
 
 import * as crypto from 'crypto';
-import { MarkdownBlock, BlockType, ParsedDocument } from './types/block';
+import { MarkdownBlock, BlockType, ParsedDocument, EditedLines, LineEnding } from './types/block';
 
 /**
  * Generate SHA-256 hash for content
  */
-function generateHash(content: string): string {
+export function generateHash(content: string): string {
   return crypto.createHash('sha256').update(content).digest('hex');
 }
 
 /**
- * State machine states for parsing
+ * Get the line ending used by most lines of a document
  */
-type ParserState =
-  | 'normal'
-  | 'code_block'
-  | 'front_matter'
-  | 'html_block';
+export function detectLineEnding(content: string): LineEnding {
+  if (!content.includes('\r')) {
+    return '\n';
+  }
+  const crlf = content.match(/\r\n/g)?.length ?? 0;
+  const lf = (content.match(/\n/g)?.length ?? 0) - crlf;
+  return crlf > lf ? '\r\n' : '\n';
+}
+
+/**
+ * Convert CRLF and CR line endings to LF
+ */
+export function normalizeLineEndings(content: string): string {
+  return content.includes('\r') ? content.replace(/\r\n?/g, '\n') : content;
+}
+
+/**
+ * Convert the line endings of content (e.g. a translation) to a document's line ending
+ */
+export function restoreLineEndings(content: string, lineEnding: LineEnding = '\n'): string {
+  const normalized = normalizeLineEndings(content);
+  return lineEnding === '\n' ? normalized : normalized.replace(/\n/g, lineEnding);
+}
 
-interface ParserContext {
-  state: ParserState;
-  /** Fence character for code blocks (` or ~) */
-  codeFence?: string;
-  /** Fence length for code blocks */
-  codeFenceLength?: number;
-  /** Current block being accumulated */
-  currentBlock: string[];
-  /** Starting line of current block */
-  blockStartLine: number;
-  /** Type of current block being accumulated */
-  currentType?: BlockType;
+/**
+ * A list item marker
+ */
+interface ListMarker {
+  /** Bullet character, or the delimiter ("." or ")") of an ordered item */
+  bullet: string;
+  ordered: boolean;
+  /** Number of an ordered item */
+  start: number;
+  /** Column where the item content starts (continuation lines must be indented this far) */
+  contentIndent: number;
+  /** Whether the marker is followed by nothing */
+  empty: boolean;
 }
 
 /**
- * Check if a line starts a heading
+ * Kinds of HTML block start conditions (CommonMark 4.6), with the end condition of kinds 1-5
  */
-function isHeading(line: string): boolean {
-  return /^#{1,6}\s/.test(line);
+const HTML_BLOCK_KINDS: Array<{ start: RegExp; end?: RegExp }> = [
+  { start: /^ {0,3}<(?:script|pre|style|textarea)(?:\s|>|$)/i, end: /<\/(?:script|pre|style|textarea)>/i },
+  { start: /^ {0,3}<!--/, end: /-->/ },
+  { start: /^ {0,3}<\?/, end: /\?>/ },
+  { start: /^ {0,3}<![A-Za-z]/, end: />/ },
+  { start: /^ {0,3}<!\[CDATA\[/, end: /\]\]>/ },
+  {
+    start:
+      /^ {0,3}<\/?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(?:\s|\/?>|$)/i,
+  },
+  {
+    start:
+      /^ {0,3}(?:<[A-Za-z][A-Za-z0-9-]*(?:\s+[A-Za-z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[A-Za-z][A-Za-z0-9-]*\s*>)\s*$/,
+  },
+];
+
+/**
+ * Replace leading tabs with spaces (tab stops of 4) so indentation can be measured in columns
+ */
+function expandIndent(line: string): string {
+  const match = line.match(/^[ \t]*/)![0];
+  if (!match.includes('\t')) {
+    return line;
+  }
+  let columns = 0;
+  for (const char of match) {
+    columns = char === '\t' ? columns + 4 - (columns % 4) : columns + 1;
+  }
+  return ' '.repeat(columns) + line.slice(match.length);
+}
+
+/**
+ * Get the indentation of a line in columns
+ */
+function getIndent(line: string): number {
+  return expandIndent(line).match(/^ */)![0].length;
+}
+
+/**
+ * Check if a line is blank
+ */
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+/**
+ * Check if a line is an ATX heading (# Heading)
+ */
+function isAtxHeading(line: string): boolean {
+  return /^ {0,3}#{1,6}(?:[ \t]|$)/.test(expandIndent(line));
 }
 
 /**
  * Check if a line is a thematic break (---, ***, ___)
  */
 function isThematicBreak(line: string): boolean {
-  return /^(\s{0,3})([-*_])\s*\2\s*\2(\s*\2)*\s*$/.test(line);
+  return /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/.test(expandIndent(line));
+}
+
+/**
+ * Get the heading level of a setext underline (=== or ---), or 0 if the line isn't one
+ */
+function getSetextLevel(line: string): number {
+  const match = expandIndent(line).match(/^ {0,3}(=+|-+)[ \t]*$/);
+  if (!match) {
+    return 0;
+  }
+  return match[1][0] === '=' ? 1 : 2;
 }
 
 /**
  * Check if a line starts a code fence
  */
 function isCodeFenceStart(line: string): { fence: string; length: number } | null {
-  const match = line.match(/^(\s{0,3})(`{3,}|~{3,})/);
-  if (match) {
-    return { fence: match[2][0], length: match[2].length };
+  const match = expandIndent(line).match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+  if (!match || (match[1][0] === '`' && match[2].includes('`'))) {
+    return null;
   }
-  return null;
+  return { fence: match[1][0], length: match[1].length };
 }
 
 /**
  * Check if a line ends a code fence
  */
 function isCodeFenceEnd(line: string, fence: string, minLength: number): boolean {
-  const pattern = new RegExp(`^\\s{0,3}${fence}{${minLength},}\\s*$`);
-  return pattern.test(line);
+  const match = expandIndent(line).match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+  return match !== null && match[1][0] === fence && match[1].length >= minLength;
 }
 
 /**
- * Check if a line starts a list item (unordered or ordered)
+ * Check if a line starts a blockquote
  */
-function isListItem(line: string): boolean {
-  // Unordered: - * +
-  // Ordered: 1. 2. etc
-  return /^(\s*)[-*+]\s/.test(line) || /^(\s*)\d+[.)]\s/.test(line);
+function isBlockquote(line: string): boolean {
+  return /^ {0,3}>/.test(expandIndent(line));
 }
 
 /**
- * Check if a line is part of a list (has appropriate indentation)
+ * Check if a line is the first line of a GitHub alert (> [!NOTE])
  */
-function isListContinuation(line: string): boolean {
-  // Empty line or indented content can continue a list
-  return line.trim() === '' || /^\s{2,}/.test(line);
+function isAlertStart(line: string): boolean {
+  return /^ {0,3}> ?\[![A-Za-z]+\][+-]?(?:[ \t].*)?$/.test(expandIndent(line));
 }
 
 /**
- * Check if a line starts a blockquote
+ * Get the colon count of a container directive opening line (:::tip), or 0
  */
-function isBlockquote(line: string): boolean {
-  return /^\s{0,3}>/.test(line);
+function getDirectiveFenceLength(line: string): number {
+  const match = expandIndent(line).match(/^ {0,3}(:{3,})[ \t]*[A-Za-z]/);
+  return match ? match[1].length : 0;
 }
 
 /**
- * Check if a line starts a table (pipe at start or with content)
+ * Parse a list item marker at the start of a line
  */
-function isTableLine(line: string): boolean {
-  // Table lines contain pipes and have content
-  return /^\s*\|/.test(line) || /\|.*\|/.test(line);
+function parseListMarker(line: string): ListMarker | null {
+  const match = expandIndent(line).match(/^( {0,3})([-+*]|(\d{1,9})([.)]))(?:([ \t]+)(.*))?$/);
+  if (!match) {
+    return null;
+  }
+  const empty = !match[6] || isBlank(match[6]);
+  const spaces = match[5]?.length ?? 0;
+  return {
+    bullet: match[4] ?? match[2],
+    ordered: match[3] !== undefined,
+    start: match[3] !== undefined ? Number(match[3]) : 0,
+    contentIndent: match[1].length + match[2].length + (empty || spaces > 4 ? 1 : spaces),
+    empty,
+  };
 }
 
 /**
- * Check if a line is a table separator (|---|---|)
+ * Get the HTML block kind (0-6, an index into HTML_BLOCK_KINDS) a line starts, or -1
  */
-function isTableSeparator(line: string): boolean {
-  return /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/.test(line);
+function getHtmlBlockKind(line: string): number {
+  const expanded = expandIndent(line);
+  return HTML_BLOCK_KINDS.findIndex((kind) => kind.start.test(expanded));
 }
 
 /**
- * Check if a line is blank
+ * Check if a line starts display math ($$)
  */
-function isBlank(line: string): boolean {
-  return line.trim() === '';
+function isMathStart(line: string): boolean {
+  return /^ {0,3}\$\$/.test(expandIndent(line));
 }
 
 /**
- * Check if a line starts front matter (--- at document start)
+ * Check if a line starts a footnote definition ([^label]: text)
  */
-function isFrontMatterStart(line: string, lineIndex: number): boolean {
-  return lineIndex === 0 && line.trim() === '---';
+function isFootnoteDefinition(line: string): boolean {
+  return /^ {0,3}\[\^[^\]\s]+\]:/.test(expandIndent(line));
 }
 
 /**
- * Check if a line ends front matter
+ * Check if a line is a complete link reference definition ([label]: destination "title")
  */
-function isFrontMatterEnd(line: string): boolean {
-  return line.trim() === '---' || line.trim() === '...';
+function isLinkReferenceDefinition(line: string): boolean {
+  return /^ {0,3}\[(?!\^)(?:[^[\]\\]|\\.)+\]:[ \t]*(?:<[^<>\n]*>|\S+)(?:[ \t]+(?:"[^"]*"|'[^']*'|\([^()]*\)))?[ \t]*$/.test(
+    expandIndent(line)
+  );
 }
 
 /**
- * Check if a line starts an HTML block
+ * Check if a line is the title of a link reference definition on its own line
  */
-function isHtmlBlockStart(line: string): boolean {
-  // Common HTML block patterns
-  return /^\s*<(script|pre|style|textarea|!--|!DOCTYPE|\/?(address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|section|source|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)[\s>\/])/i.test(line);
+function isLinkReferenceTitle(line: string): boolean {
+  return /^[ \t]*(?:"[^"]*"|'[^']*'|\([^()]*\))[ \t]*$/.test(line);
 }
 
 /**
- * Determine the block type for a line
+ * Split a table row into its cells (escaped pipes don't split cells)
  */
-function determineBlockType(line: string, prevType?: BlockType): BlockType | null {
-  if (isHeading(line)) return 'heading';
-  if (isThematicBreak(line)) return 'thematic_break';
-  if (isCodeFenceStart(line)) return 'code_block';
-  if (isBlockquote(line)) return 'blockquote';
-  if (isListItem(line)) return 'list';
-  if (isTableLine(line)) return 'table';
-  if (isHtmlBlockStart(line)) return 'html_block';
-  if (isBlank(line)) return 'blank_lines';
-  return 'paragraph';
+export function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/);
 }
 
 /**
- * Parse Markdown content into blocks
+ * Check if a line is a table delimiter row (|---|:---:|)
  */
-export function parseMarkdownToBlocks(content: string): ParsedDocument {
-  const lines = content.split('\n');
-  const blocks: MarkdownBlock[] = [];
+function isTableSeparator(line: string): boolean {
+  return (
+    line.includes('|') && /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/.test(expandIndent(line))
+  );
+}
 
-  const ctx: ParserContext = {
-    state: 'normal',
-    currentBlock: [],
-    blockStartLine: 0,
-  };
+/**
+ * Check if a line is the header row of a GFM table (followed by a delimiter row with as many cells)
+ */
+function isTableHeader(lines: string[], index: number): boolean {
+  const next = lines[index + 1];
+  return (
+    next !== undefined &&
+    !isBlank(lines[index]) &&
+    isTableSeparator(next) &&
+    splitTableRow(lines[index]).length === splitTableRow(next).length
+  );
+}
 
-  /**
-   * Finalize the current block and add it to blocks array
-   */
-  function finalizeBlock(endLine: number): void {
-    if (ctx.currentBlock.length === 0) return;
+/**
+ * Check if a line can interrupt a paragraph (and therefore also ends lazy continuation)
+ */
+function interruptsParagraph(line: string): boolean {
+  if (isAtxHeading(line) || isCodeFenceStart(line) || isThematicBreak(line) || isBlockquote(line)) {
+    return true;
+  }
+  if (isMathStart(line) || isFootnoteDefinition(line) || getDirectiveFenceLength(line) > 0) {
+    return true;
+  }
+  const kind = getHtmlBlockKind(line);
+  if (kind !== -1 && kind < 6) {
+    return true;
+  }
+  const marker = parseListMarker(line);
+  return marker !== null && !marker.empty && (!marker.ordered || marker.start === 1);
+}
 
-    const blockContent = ctx.currentBlock.join('\n');
-    const blockType = ctx.currentType || 'paragraph';
+/**
+ * Tracks the innermost block of a container's content, to know whether a following
+ * unindented line is a lazy paragraph continuation
+ */
+interface ContainerContent {
+  /** Open fence inside the container */
+  fence?: { fence: string; length: number };
+  /** Whether the last content line belongs to a paragraph */
+  inParagraph: boolean;
+}
 
-    blocks.push({
-      index: blocks.length,
-      type: blockType,
-      content: blockContent,
-      hash: generateHash(blockContent),
-      startLine: ctx.blockStartLine,
-      endLine: endLine,
-    });
+/**
+ * Update the container state with a content line (container markers not yet stripped)
+ */
+function trackContainerContent(state: ContainerContent, line: string): void {
+  // Strip nested blockquote and list markers to get to the leaf content
+  let content = expandIndent(line);
+  for (;;) {
+    const stripped = content.replace(/^ {0,3}> ?/, '').replace(/^ {0,3}(?:[-+*]|\d{1,9}[.)])(?:[ \t]+|$)/, '');
+    if (stripped === content) {
+      break;
+    }
+    content = stripped;
+  }
 
-    ctx.currentBlock = [];
-    ctx.currentType = undefined;
+  if (state.fence) {
+    if (isCodeFenceEnd(content, state.fence.fence, state.fence.length)) {
+      state.fence = undefined;
+    }
+    state.inParagraph = false;
+    return;
   }
+  const fence = isCodeFenceStart(content);
+  if (fence) {
+    state.fence = fence;
+    state.inParagraph = false;
+    return;
+  }
+  if (isBlank(content)) {
+    state.inParagraph = false;
+    return;
+  }
+  // Indented code only starts outside a paragraph; otherwise the line continues it
+  if (!state.inParagraph && getIndent(content) >= 4) {
+    return;
+  }
+  state.inParagraph = !isAtxHeading(content) && !isThematicBreak(content) && getHtmlBlockKind(content) === -1;
+}
 
-  /**
-   * Start a new block
-   */
-  function startBlock(line: string, lineIndex: number, type: BlockType): void {
-    ctx.currentBlock = [line];
-    ctx.blockStartLine = lineIndex;
-    ctx.currentType = type;
+/**
+ * Find the last line of a fenced code block (the closing fence, or the last line of the document)
+ */
+function scanFencedCode(lines: string[], start: number, fence: { fence: string; length: number }): number {
+  for (let i = start + 1; i < lines.length; i++) {
+    if (isCodeFenceEnd(lines[i], fence.fence, fence.length)) {
+      return i;
+    }
   }
+  return lines.length - 1;
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+/**
+ * Find the closing line of a container directive, or -1 if it isn't closed
+ * Fenced code is skipped, and nested directives need fewer colons than the ones around them.
+ */
+function scanDirective(lines: string[], start: number, length: number): number {
+  for (let i = start + 1; i < lines.length; i++) {
+    const fence = isCodeFenceStart(lines[i]);
+    if (fence) {
+      i = scanFencedCode(lines, i, fence);
+      continue;
+    }
+    const close = expandIndent(lines[i]).match(/^ {0,3}(:{3,})[ \t]*$/);
+    if (close && close[1].length >= length) {
+      return i;
+    }
+  }
+  return -1;
+}
 
-    // Handle special states
-    if (ctx.state === 'front_matter') {
-      ctx.currentBlock.push(line);
-      if (isFrontMatterEnd(line) && ctx.currentBlock.length > 1) {
-        ctx.state = 'normal';
-        finalizeBlock(i);
-      }
+/**
+ * Find the last line of an indented code block (trailing blank lines are not part of it)
+ */
+function scanIndentedCode(lines: string[], start: number): number {
+  let end = start;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (isBlank(lines[i])) {
       continue;
     }
+    if (getIndent(lines[i]) < 4) {
+      break;
+    }
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * Find the last line of an HTML block
+ */
+function scanHtmlBlock(lines: string[], start: number, kind: number): number {
+  const end = HTML_BLOCK_KINDS[kind].end;
+  for (let i = start; i < lines.length; i++) {
+    if (end ? end.test(lines[i]) : i + 1 < lines.length && isBlank(lines[i + 1])) {
+      return i;
+    }
+  }
+  return lines.length - 1;
+}
+
+/**
+ * Find the last line of a blockquote, including lazy continuation lines
+ */
+function scanBlockquote(lines: string[], start: number): number {
+  const content: ContainerContent = { inParagraph: false };
+  trackContainerContent(content, lines[start]);
+  let end = start;
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (isBlockquote(line)) {
+      trackContainerContent(content, line);
+    } else if (isBlank(line) || !content.inParagraph || interruptsParagraph(line)) {
+      break;
+    }
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * Find the last line of display math (the line closing the $$), or -1 if it isn't closed
+ */
+function scanMath(lines: string[], start: number): number {
+  const rest = lines[start].trim().slice(2);
+  if (rest.includes('$$')) {
+    // $$ x $$ on one line, or inline math followed by more text
+    return /\$\$$/.test(rest) ? start : -1;
+  }
+  for (let i = start + 1; i < lines.length; i++) {
+    if (/\$\$[ \t]*$/.test(lines[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the last line of consecutive link reference definitions (titles may be on their own line)
+ */
+function scanLinkReferenceDefinitions(lines: string[], start: number): number {
+  let end = start;
+  while (
+    end + 1 < lines.length &&
+    (isLinkReferenceDefinition(lines[end + 1]) || isLinkReferenceTitle(lines[end + 1]))
+  ) {
+    end++;
+  }
+  return end;
+}
 
-    if (ctx.state === 'code_block') {
-      ctx.currentBlock.push(line);
-      if (isCodeFenceEnd(line, ctx.codeFence!, ctx.codeFenceLength!)) {
-        ctx.state = 'normal';
-        finalizeBlock(i);
+/**
+ * Find the last line of a list (consecutive items with the same marker type)
+ * Footnote definitions are scanned as a single item whose content is indented by 4 columns.
+ */
+function scanList(lines: string[], start: number, marker: Pick<ListMarker, 'bullet' | 'contentIndent'>): number {
+  let contentIndent = marker.contentIndent;
+  const content: ContainerContent = { inParagraph: false };
+  trackContainerContent(content, lines[start]);
+  let end = start;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      if (content.fence) {
+        continue;
+      }
+      // Blank lines belong to the list only if it continues after them
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) {
+        next++;
+      }
+      if (next >= lines.length) {
+        break;
+      }
+      const nextMarker = isThematicBreak(lines[next]) ? null : parseListMarker(lines[next]);
+      const continues =
+        getIndent(lines[next]) >= contentIndent ||
+        (nextMarker !== null && nextMarker.bullet === marker.bullet);
+      if (!continues) {
+        break;
       }
+      content.inParagraph = false;
+      i = next - 1;
       continue;
     }
 
-    // Check for front matter at document start
-    if (i === 0 && isFrontMatterStart(line, i)) {
-      ctx.state = 'front_matter';
-      ctx.currentType = 'front_matter';
-      ctx.currentBlock = [line];
-      ctx.blockStartLine = i;
+    if (getIndent(line) >= contentIndent) {
+      trackContainerContent(content, expandIndent(line).slice(contentIndent));
+      end = i;
       continue;
     }
 
-    // Check for code fence start
-    const codeFence = isCodeFenceStart(line);
-    if (codeFence) {
-      finalizeBlock(i - 1);
-      ctx.state = 'code_block';
-      ctx.codeFence = codeFence.fence;
-      ctx.codeFenceLength = codeFence.length;
-      startBlock(line, i, 'code_block');
+    const itemMarker = isThematicBreak(line) ? null : parseListMarker(line);
+    if (itemMarker) {
+      if (itemMarker.bullet !== marker.bullet) {
+        break;
+      }
+      contentIndent = itemMarker.contentIndent;
+      content.fence = undefined;
+      content.inParagraph = false;
+      trackContainerContent(content, line);
+      end = i;
       continue;
     }
 
-    // Normal state processing
-    const lineType = determineBlockType(line, ctx.currentType);
-
-    // Handle blank lines
-    if (lineType === 'blank_lines') {
-      if (ctx.currentType === 'blank_lines') {
-        // Continue accumulating blank lines
-        ctx.currentBlock.push(line);
-      } else if (ctx.currentType === 'list') {
-        // Blank line might continue a list or end it
-        // Look ahead to see if list continues
-        const nextNonBlank = lines.slice(i + 1).find(l => l.trim() !== '');
-        if (nextNonBlank && (isListItem(nextNonBlank) || /^\s{2,}/.test(nextNonBlank))) {
-          ctx.currentBlock.push(line);
-        } else {
-          finalizeBlock(i - 1);
-          startBlock(line, i, 'blank_lines');
+    // Lazy paragraph continuation
+    if (content.fence || !content.inParagraph || interruptsParagraph(line)) {
+      break;
+    }
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * Find the last line of a GFM table (rows continue until a blank line or another block)
+ */
+function scanTable(lines: string[], start: number): number {
+  let end = start + 1;
+  while (end + 1 < lines.length && !isBlank(lines[end + 1]) && !interruptsParagraph(lines[end + 1])) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Find the last line of a paragraph and whether it is a setext heading
+ */
+function scanParagraph(lines: string[], start: number): { end: number; type: BlockType } {
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (getIndent(line) < 4 && getSetextLevel(line) > 0) {
+      return { end: i, type: 'heading' };
+    }
+    if (isBlank(line) || interruptsParagraph(line) || isTableHeader(lines, i)) {
+      return { end: i - 1, type: 'paragraph' };
+    }
+  }
+  return { end: lines.length - 1, type: 'paragraph' };
+}
+
+/**
+ * Find the last line of the YAML (---) or TOML (+++) front matter starting at the first line,
+ * or -1 if it isn't closed
+ */
+function scanFrontMatter(lines: string[]): number {
+  const opener = lines[0].trim();
+  if (opener !== '---' && opener !== '+++') {
+    return -1;
+  }
+  const closers = opener === '---' ? ['---', '...'] : ['+++'];
+  for (let i = 1; i < lines.length; i++) {
+    if (closers.includes(lines[i].trim())) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Check if a line starts an MDX import or export statement
+ */
+function isMdxEsm(line: string): boolean {
+  return /^(?:import|export)(?:[ \t{*]|$)/.test(line);
+}
+
+/**
+ * Check if a line starts a JSX element (or fragment) in MDX
+ */
+function isJsxStart(line: string): boolean {
+  return /^ {0,3}<(?:\/?[A-Za-z][\w.:-]*|\/?>)/.test(line);
+}
+
+/**
+ * Find the last line before the next blank line
+ */
+function scanUntilBlank(lines: string[], start: number): number {
+  let end = start;
+  while (end + 1 < lines.length && !isBlank(lines[end + 1])) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Find the last line of an MDX expression block ({...}), or -1 if its braces are never balanced
+ * at the end of a line
+ */
+function scanMdxExpression(lines: string[], start: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+  let comment = false;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    for (let j = 0; j < line.length; j++) {
+      const char = line[j];
+      if (comment) {
+        if (line.startsWith('*/', j)) {
+          comment = false;
+          j++;
+        }
+      } else if (line.startsWith('/*', j)) {
+        comment = true;
+        j++;
+      } else if (quote) {
+        if (char === '\\') {
+          j++;
+        } else if (char === quote) {
+          quote = undefined;
+        }
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          return line.slice(j + 1).trim() === '' ? i : -1;
         }
-      } else {
-        // End current block, start blank lines block
-        finalizeBlock(i - 1);
-        startBlock(line, i, 'blank_lines');
       }
-      continue;
     }
+  }
+  return -1;
+}
 
-    // Handle heading (always its own block)
-    if (lineType === 'heading') {
-      finalizeBlock(i - 1);
-      startBlock(line, i, 'heading');
-      finalizeBlock(i);
-      continue;
+/**
+ * Options for parsing
+ */
+export interface ParseOptions {
+  /** Parse MDX syntax: import/export statements, {expressions} and JSX elements (indented code is disabled) */
+  mdx?: boolean;
+}
+
+/**
+ * Check if a file path is an MDX document
+ */
+export function isMdxPath(filePath: string): boolean {
+  return /\.mdx$/i.test(filePath);
+}
+
+/**
+ * Determine the type and last line of an MDX-only block starting at a line, if any
+ */
+function scanMdxBlock(lines: string[], start: number): { type: BlockType; end: number } | undefined {
+  const line = lines[start];
+  if (isMdxEsm(line)) {
+    return { type: 'mdx_esm', end: scanUntilBlank(lines, start) };
+  }
+  if (/^ {0,3}\{/.test(line)) {
+    const end = scanMdxExpression(lines, start);
+    if (end !== -1) {
+      return { type: 'mdx_expression', end };
     }
+  }
+  if (isJsxStart(line)) {
+    return { type: 'jsx_block', end: scanUntilBlank(lines, start) };
+  }
+  return undefined;
+}
 
-    // Handle thematic break (always its own block)
-    if (lineType === 'thematic_break') {
-      finalizeBlock(i - 1);
-      startBlock(line, i, 'thematic_break');
-      finalizeBlock(i);
-      continue;
+/**
+ * Determine the type and last line of the block starting at a line
+ */
+function scanBlock(lines: string[], start: number, options: ParseOptions): { type: BlockType; end: number } {
+  const line = lines[start];
+
+  if (isBlank(line)) {
+    let end = start;
+    while (end + 1 < lines.length && isBlank(lines[end + 1])) {
+      end++;
     }
+    return { type: 'blank_lines', end };
+  }
 
-    // Handle blockquote
-    if (lineType === 'blockquote') {
-      if (ctx.currentType === 'blockquote') {
-        ctx.currentBlock.push(line);
-      } else {
-        finalizeBlock(i - 1);
-        startBlock(line, i, 'blockquote');
-      }
-      continue;
+  if (start === 0) {
+    const frontMatterEnd = scanFrontMatter(lines);
+    if (frontMatterEnd !== -1) {
+      return { type: 'front_matter', end: frontMatterEnd };
     }
+  }
 
-    // Handle list
-    if (lineType === 'list' || (ctx.currentType === 'list' && isListContinuation(line))) {
-      if (ctx.currentType === 'list') {
-        ctx.currentBlock.push(line);
-      } else {
-        finalizeBlock(i - 1);
-        startBlock(line, i, 'list');
-      }
-      continue;
+  if (options.mdx) {
+    const mdxBlock = scanMdxBlock(lines, start);
+    if (mdxBlock) {
+      return mdxBlock;
     }
+  } else if (getIndent(line) >= 4) {
+    return { type: 'code_block', end: scanIndentedCode(lines, start) };
+  }
 
-    // Handle table
-    if (lineType === 'table' || (ctx.currentType === 'table' && (isTableLine(line) || isTableSeparator(line)))) {
-      if (ctx.currentType === 'table') {
-        ctx.currentBlock.push(line);
-      } else {
-        finalizeBlock(i - 1);
-        startBlock(line, i, 'table');
-      }
-      continue;
+  const fence = isCodeFenceStart(line);
+  if (fence) {
+    return { type: 'code_block', end: scanFencedCode(lines, start, fence) };
+  }
+
+  if (isMathStart(line)) {
+    const mathEnd = scanMath(lines, start);
+    if (mathEnd !== -1) {
+      return { type: 'math_block', end: mathEnd };
     }
+  }
+
+  if (isAtxHeading(line)) {
+    return { type: 'heading', end: start };
+  }
+
+  if (isThematicBreak(line)) {
+    return { type: 'thematic_break', end: start };
+  }
+
+  if (isBlockquote(line)) {
+    return { type: isAlertStart(line) ? 'alert' : 'blockquote', end: scanBlockquote(lines, start) };
+  }
+
+  const directiveLength = getDirectiveFenceLength(line);
+  if (directiveLength > 0) {
+    const directiveEnd = scanDirective(lines, start, directiveLength);
+    if (directiveEnd !== -1) {
+      return { type: 'container_directive', end: directiveEnd };
+    }
+  }
+
+  const marker = parseListMarker(line);
+  if (marker) {
+    return { type: 'list', end: scanList(lines, start, marker) };
+  }
+
+  const htmlKind = getHtmlBlockKind(line);
+  if (htmlKind !== -1) {
+    return { type: 'html_block', end: scanHtmlBlock(lines, start, htmlKind) };
+  }
+
+  if (isFootnoteDefinition(line)) {
+    return { type: 'footnote_definition', end: scanList(lines, start, { bullet: '', contentIndent: 4 }) };
+  }
+
+  if (isLinkReferenceDefinition(line)) {
+    return { type: 'link_reference_definition', end: scanLinkReferenceDefinitions(lines, start) };
+  }
+
+  if (isTableHeader(lines, start)) {
+    return { type: 'table', end: scanTable(lines, start) };
+  }
+
+  return scanParagraph(lines, start);
+}
+
+/**
+ * Parse blocks from a line until the end of the document, or until `stop` returns true for the
+ * start line of the next block
+ */
+function scanBlocks(
+  lines: string[],
+  start: number,
+  options: ParseOptions,
+  blocks: MarkdownBlock[],
+  stop: (start: number) => boolean = () => false
+): number {
+  while (start < lines.length && !stop(start)) {
+    const { type, end } = scanBlock(lines, start, options);
+    const blockContent = lines.slice(start, end + 1).join('\n');
+
+    blocks.push({
+      index: blocks.length,
+      type,
+      content: blockContent,
+      hash: generateHash(blockContent),
+      startLine: start,
+      endLine: end,
+    });
+
+    start = end + 1;
+  }
+  return start;
+}
 
-    // Handle paragraph (default)
-    if (ctx.currentType === 'paragraph') {
-      ctx.currentBlock.push(line);
+/**
+ * Parse Markdown (or MDX) content into blocks
+ * Line endings are normalized to LF, so CRLF documents get the same blocks and hashes.
+ */
+export function parseMarkdownToBlocks(content: string, options: ParseOptions = {}): ParsedDocument {
+  const normalized = normalizeLineEndings(content);
+  const blocks: MarkdownBlock[] = [];
+  scanBlocks(normalized.split('\n'), 0, options, blocks);
+  return createParsedDocument(blocks, normalized, options, detectLineEnding(content));
+}
+
+/**
+ * Merge a text edit into the lines edited so far
+ * Edits are applied in order, each in the coordinates of the content after the previous ones (like
+ * the content changes of a text document change event).
+ * @param start - First line of the replaced range
+ * @param end - Last line of the replaced range
+ * @param lineCount - Number of line breaks in the inserted text
+ */
+export function addLineEdit(
+  edited: EditedLines | undefined,
+  start: number,
+  end: number,
+  lineCount: number
+): EditedLines {
+  const newEnd = start + lineCount;
+  if (!edited) {
+    return { start, oldEnd: end, newEnd };
+  }
+  // Lines after the edited region map back to the previous content with a fixed offset
+  const oldEnd = end > edited.newEnd ? end + edited.oldEnd - edited.newEnd : edited.oldEnd;
+  return {
+    start: Math.min(edited.start, start),
+    oldEnd,
+    newEnd: Math.max(edited.newEnd, end) + newEnd - end,
+  };
+}
+
+/**
+ * Check if a block starts like a block that needs a closing line (display math, a container
+ * directive, an MDX expression or front matter) but was parsed as something else because the
+ * closing line is missing: adding the closing line anywhere after it changes the block.
+ */
+function isUnclosedBlock(block: MarkdownBlock, options: ParseOptions): boolean {
+  const line = block.startLine === block.endLine ? block.content : block.content.slice(0, block.content.indexOf('\n'));
+  return (
+    (isMathStart(line) && block.type !== 'math_block') ||
+    (getDirectiveFenceLength(line) > 0 && block.type !== 'container_directive') ||
+    (!!options.mdx && /^ {0,3}\{/.test(line) && block.type !== 'mdx_expression') ||
+    (block.startLine === 0 && /^(?:---|\+\+\+)$/.test(line.trim()) && block.type !== 'front_matter')
+  );
+}
+
+/**
+ * Find the index of the block containing a line
+ */
+function findBlockAt(blocks: MarkdownBlock[], line: number): number {
+  let low = 0;
+  let high = blocks.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (blocks[middle].startLine <= line) {
+      low = middle;
     } else {
-      finalizeBlock(i - 1);
-      startBlock(line, i, 'paragraph');
+      high = middle - 1;
     }
   }
+  return low;
+}
 
-  // Finalize any remaining block
-  finalizeBlock(lines.length - 1);
+/**
+ * Re-parse a document after an edit, reusing the blocks (and hashes) outside the edited region
+ * Parsing restarts at the block before the edit (blocks can end because of the line after them,
+ * or of the first line after blank lines) and stops at the first block boundary after the edit
+ * that was also a boundary before it; the blocks after it are shifted.
+ * The result is the same as parsing the new content with `parseMarkdownToBlocks`.
+ * @param previous - Parsed previous content
+ * @param content - New content
+ * @param edited - Lines changed between the previous and the new content
+ */
+export function reparseMarkdownBlocks(previous: ParsedDocument, content: string, edited: EditedLines): ParsedDocument {
+  const options: ParseOptions = previous.mdx ? { mdx: true } : {};
+  const oldBlocks = previous.blocks;
+  if (oldBlocks.length === 0) {
+    return parseMarkdownToBlocks(content, options);
+  }
+
+  let first = findBlockAt(oldBlocks, edited.start) - 1;
+  while (first > 0 && oldBlocks[first].type === 'blank_lines') {
+    first--;
+  }
+  first = Math.max(first, 0);
+  for (let i = first - 1; i >= 0; i--) {
+    if (isUnclosedBlock(oldBlocks[i], options)) {
+      first = i;
+    }
+  }
 
+  const normalized = normalizeLineEndings(content);
+  const lines = normalized.split('\n');
+  const shift = edited.newEnd - edited.oldEnd;
+  const blocks = oldBlocks.slice(0, first);
+  let resumeAt = -1;
+  const start = scanBlocks(lines, oldBlocks[first].startLine, options, blocks, (line) => {
+    if (line <= edited.newEnd) {
+      return false;
+    }
+    const oldIndex = findBlockAt(oldBlocks, line - shift);
+    resumeAt = oldBlocks[oldIndex].startLine === line - shift ? oldIndex : -1;
+    return resumeAt !== -1;
+  });
+
+  if (start < lines.length) {
+    for (const block of oldBlocks.slice(resumeAt)) {
+      const index = blocks.length;
+      blocks.push(
+        index === block.index && shift === 0
+          ? block
+          : { ...block, index, startLine: block.startLine + shift, endLine: block.endLine + shift }
+      );
+    }
+  }
+
+  return createParsedDocument(blocks, normalized, options, detectLineEnding(content));
+}
+
+/**
+ * Build a parsed document from its blocks
+ * @param content - Content with LF line endings
+ */
+function createParsedDocument(
+  blocks: MarkdownBlock[],
+  content: string,
+  options: ParseOptions,
+  lineEnding: LineEnding
+): ParsedDocument {
   // Build hash lookup map
   const blocksByHash = new Map<string, MarkdownBlock[]>();
   for (const block of blocks) {
@@ -336,13 +915,18 @@ export function parseMarkdownToBlocks(content: string): ParsedDocument {
     }
   }
 
-  // Calculate document hash
-  const documentHash = generateHash(content);
+  // Document hash, calculated on first use (re-parses while typing never need it)
+  let documentHash: string | undefined;
 
   return {
     blocks,
     blocksByHash,
-    documentHash,
+    get documentHash() {
+      documentHash ??= generateHash(content);
+      return documentHash;
+    },
+    ...(options.mdx && { mdx: true }),
+    ...(lineEnding !== '\n' && { lineEnding }),
   };
 }
 
@@ -0,0 +1,199 @@
+/**
+ * Placeholder protection
+ * Replaces inline code, link destinations, autolinks, HTML tags, entities and math with opaque tokens
+ * before content is sent to the model, and restores them in the translation.
+ */
+
+const PLACEHOLDER_OPEN = '⟦';
+const PLACEHOLDER_CLOSE = '⟧';
+
+/**
+ * Longest placeholder token held back while streaming (⟦ + digits + ⟧)
+ */
+const MAX_PLACEHOLDER_LENGTH = 12;
+
+/**
+ * Prompt instruction telling the model to keep placeholders
+ */
+export const PLACEHOLDER_INSTRUCTION = `Keep placeholder tokens such as ${PLACEHOLDER_OPEN}0${PLACEHOLDER_CLOSE} exactly as they are, in the same position relative to the surrounding text.`;
+
+/**
+ * Inline patterns to protect, applied in order.
+ * Earlier patterns win: text inside a code span is never matched by later patterns.
+ */
+const INLINE_PATTERNS: Array<{ pattern: RegExp; keepPrefix?: string }> = [
+  // Inline code spans (any backtick run length)
+  { pattern: /(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g },
+  // Display math ($$...$$), then inline math ($...$)
+  { pattern: /\$\$[\s\S]+?\$\$/g },
+  { pattern: /\$(?![\s$])[^$\n]+?(?<!\s)\$(?!\d)/g },
+  // Autolinks (<https://...>, <user@example.com>)
+  { pattern: /<(?:[A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>]+)>/g },
+  // HTML comments and tags
+  { pattern: /<!--[\s\S]*?-->/g },
+  { pattern: /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s+[^<>]*)?\/?>/g },
+  // Character references (&amp;, &#169;, &#x1F600;)
+  { pattern: /&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[A-Za-z][A-Za-z0-9]{1,31});/g },
+  // Link / image destinations with optional title: [text](url "title")
+  {
+    pattern: /\]\(\s*(?:<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"\n]*"|'[^'\n]*'|\([^()\n]*\)))?\s*\)/g,
+    keepPrefix: ']',
+  },
+  // Reference link labels: [text][label]
+  { pattern: /\]\[[^\]\n]+\]/g, keepPrefix: ']' },
+  // Footnote references: [^1]
+  { pattern: /\[\^[^\]\s]+\]/g },
+  // Bare URLs (GFM extended autolinks)
+  { pattern: /\bhttps?:\/\/[^\s<>]*[^\s<>.,:;"')\]*_~]/g },
+];
+
+export interface MaskedText {
+  /** Text with protected spans replaced by placeholder tokens */
+  text: string;
+  /** Placeholder token -> original text, in creation order */
+  placeholders: Map<string, string>;
+}
+
+export interface UnmaskResult {
+  /** Text with placeholder tokens restored */
+  text: string;
+  /** Tokens missing from the translated text */
+  missing: string[];
+  /** Tokens that appear more than once in the translated text */
+  duplicated: string[];
+}
+
+/**
+ * Replace protected inline spans in a piece of (non-code-block) Markdown
+ */
+function maskInline(text: string, placeholders: Map<string, string>): string {
+  let result = text;
+  for (const { pattern, keepPrefix } of INLINE_PATTERNS) {
+    result = result.replace(pattern, (match) => {
+      const prefix = keepPrefix && match.startsWith(keepPrefix) ? keepPrefix : '';
+      const token = `${PLACEHOLDER_OPEN}${placeholders.size}${PLACEHOLDER_CLOSE}`;
+      placeholders.set(token, match.slice(prefix.length));
+      return prefix + token;
+    });
+  }
+  return result;
+}
+
+/**
+ * Mask protected spans in Markdown content
+ * Fenced code blocks are left untouched (they are never translated anyway).
+ */
+export function maskMarkdown(content: string): MaskedText {
+  const placeholders = new Map<string, string>();
+
+  // Content that already contains our token characters can't be masked unambiguously
+  if (content.includes(PLACEHOLDER_OPEN) || content.includes(PLACEHOLDER_CLOSE)) {
+    return { text: content, placeholders };
+  }
+
+  const output: string[] = [];
+  let segment: string[] = [];
+  let fence: { char: string; length: number } | null = null;
+
+  const flushSegment = () => {
+    if (segment.length > 0) {
+      output.push(maskInline(segment.join('\n'), placeholders));
+      segment = [];
+    }
+  };
+
+  for (const line of content.split('\n')) {
+    if (fence) {
+      output.push(line);
+      const closing = line.match(/^\s{0,3}(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === fence.char && closing[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+
+    const opening = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (opening) {
+      flushSegment();
+      fence = { char: opening[1][0], length: opening[1].length };
+      output.push(line);
+      continue;
+    }
+
+    segment.push(line);
+  }
+  flushSegment();
+
+  return { text: output.join('\n'), placeholders };
+}
+
+/**
+ * Restore placeholder tokens without validation
+ */
+function restorePlaceholders(text: string, placeholders: Map<string, string>): string {
+  let result = text;
+  // Newest first: a placeholder's original text may contain older placeholders
+  for (const [token, original] of [...placeholders].reverse()) {
+    result = result.split(token).join(original);
+  }
+  return result;
+}
+
+/**
+ * Restore placeholder tokens and report lost or duplicated ones
+ */
+export function unmaskMarkdown(text: string, placeholders: Map<string, string>): UnmaskResult {
+  const missing: string[] = [];
+  const duplicated: string[] = [];
+  let result = text;
+
+  for (const [token, original] of [...placeholders].reverse()) {
+    const parts = result.split(token);
+    if (parts.length === 1) {
+      missing.push(token);
+    } else if (parts.length > 2) {
+      duplicated.push(token);
+    }
+    result = parts.join(original);
+  }
+
+  return { text: result, missing, duplicated };
+}
+
+/**
+ * Check whether an unmask result restored every placeholder exactly once
+ */
+export function isUnmaskValid(result: UnmaskResult): boolean {
+  return result.missing.length === 0 && result.duplicated.length === 0;
+}
+
+/**
+ * Restore placeholders in streamed fragments
+ * Text that may be the start of a placeholder token is held back until the token is complete.
+ */
+export function createStreamingUnmasker(placeholders: Map<string, string>): {
+  push(fragment: string): string;
+  flush(): string;
+} {
+  let pending = '';
+
+  return {
+    push(fragment: string): string {
+      pending += fragment;
+      const openIndex = pending.lastIndexOf(PLACEHOLDER_OPEN);
+      const isIncompleteToken =
+        openIndex !== -1 &&
+        !pending.includes(PLACEHOLDER_CLOSE, openIndex) &&
+        pending.length - openIndex < MAX_PLACEHOLDER_LENGTH;
+
+      const ready = isIncompleteToken ? pending.slice(0, openIndex) : pending;
+      pending = isIncompleteToken ? pending.slice(openIndex) : '';
+      return restorePlaceholders(ready, placeholders);
+    },
+    flush(): string {
+      const rest = restorePlaceholders(pending, placeholders);
+      pending = '';
+      return rest;
+    },
+  };
+}
@@ -26,6 +26,8 @@ export interface PreviewData {
   partial?: PartialTranslationInfo;
   /** Base URI for resolving relative image paths */
   imageBaseUri?: string;
+  /** Whether the document is MDX (components are shown as placeholders) */
+  mdx?: boolean;
   /** Debug mode enabled */
   debugMode?: boolean;
   /** Auto-translate threshold (0 = disabled) */
@@ -41,6 +43,8 @@ export interface StreamingData {
   chunkSize: number;
   /** Base URI for resolving relative image paths */
   imageBaseUri?: string;
+  /** Whether the document is MDX (components are shown as placeholders) */
+  mdx?: boolean;
   /** Existing translation content (for continue translation) */
   existingTranslation?: string;
   /** Debug mode enabled */
@@ -50,7 +54,7 @@ export interface StreamingData {
 }
 
 export interface PreviewMessage {
-  type: 'requestTranslation' | 'updateTranslation' | 'retranslate' | 'modelChange' | 'languageChange' | 'chunkSizeChange' | 'continueTranslation' | 'translateAll' | 'cancelTranslation' | 'autoTranslateThresholdChange' | 'ready';
+  type: 'requestTranslation' | 'updateTranslation' | 'retranslate' | 'modelChange' | 'languageChange' | 'chunkSizeChange' | 'continueTranslation' | 'translateAll' | 'cancelTranslation' | 'autoTranslateThresholdChange' | 'saveTranslation' | 'ready';
   modelId?: string;
   language?: string;
   chunkSize?: number;
@@ -72,6 +76,7 @@ export class PreviewPanel {
   private _onChunkSizeChange: ((chunkSize: number) => void) | undefined;
   private _onCancelTranslation: (() => void) | undefined;
   private _onAutoTranslateThresholdChange: ((threshold: number) => void) | undefined;
+  private _onSaveTranslation: (() => void) | undefined;
   private _isReady: boolean = false;
   private _readyResolver: (() => void) | undefined;
 
@@ -142,6 +147,11 @@ export class PreviewPanel {
               this._onAutoTranslateThresholdChange(message.autoTranslateThreshold);
             }
             break;
+          case 'saveTranslation':
+            if (this._onSaveTranslation) {
+              this._onSaveTranslation();
+            }
+            break;
         }
       },
       null,
@@ -226,6 +236,10 @@ export class PreviewPanel {
     this._onAutoTranslateThresholdChange = callback;
   }
 
+  public onSaveTranslation(callback: () => void): void {
+    this._onSaveTranslation = callback;
+  }
+
   public showLoading(message: string = 'Translating...'): void {
     this._panel.webview.postMessage({ type: 'setLoading', text: message });
   }
@@ -311,8 +325,8 @@ export class PreviewPanel {
   /**
    * End streaming mode
    */
-  public endStreaming(): void {
-    this._panel.webview.postMessage({ type: 'streamEnd' });
+  public endStreaming(translatedFull?: string): void {
+    this._panel.webview.postMessage({ type: 'streamEnd', translatedFull });
   }
 
   /**
@@ -330,6 +344,13 @@ export class PreviewPanel {
     this._panel.webview.postMessage({ type: 'documentChanged', charDiff: changedBlockCount });
   }
 
+  /**
+   * Show translation warnings (e.g. glossary violations) above the preview
+   */
+  public showWarnings(warnings: string[]): void {
+    this._panel.webview.postMessage({ type: 'setWarnings', warnings });
+  }
+
   /**
    * Update the chunk size in the webview
    */
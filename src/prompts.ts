@@ -0,0 +1,116 @@
+/**
+ * Prompts for translating the parts of a block one by one (sentences, list items, ...)
+ * Each builder returns a function from the (masked) text to translate to the full prompt.
+ */
+
+import { GlossaryTerm, formatGlossaryForPrompt } from './glossaryTerms';
+import { PLACEHOLDER_INSTRUCTION } from './placeholder';
+
+/**
+ * Prompt for one sentence or list item of a block, with the block and its current translation as context
+ */
+export function createSegmentPrompt(
+  unit: string,
+  targetLanguage: string,
+  glossary: GlossaryTerm[],
+  original: string,
+  currentTranslation: string
+): (text: string) => string {
+  return (text) => `You are a professional translator. Translate the following ${unit} from a Markdown document to ${targetLanguage}.
+Preserve all Markdown formatting exactly as it is.
+Only translate the text content, not code, URLs, or Markdown syntax.
+${PLACEHOLDER_INSTRUCTION}
+Do not add any explanations or notes - output only the translated ${unit}.
+
+${formatGlossaryForPrompt(glossary)}[CONTEXT - Original block containing the ${unit}]:
+${original}
+
+[CONTEXT - Current translation of the block]:
+${currentTranslation}
+
+[TRANSLATE THIS ${unit.toUpperCase()}]:
+${text}`;
+}
+
+/**
+ * Prompt for the numbered cells of a table, with the whole table as context
+ */
+export function createTableCellPrompt(
+  targetLanguage: string,
+  glossary: GlossaryTerm[],
+  original: string
+): (text: string) => string {
+  return (text) => `You are a professional translator. Translate the following Markdown table cells to ${targetLanguage}.
+Each cell is on its own line and starts with its number in square brackets.
+Output every cell on its own line with the same number, in the same order, and never merge or split cells.
+Preserve inline Markdown formatting exactly as it is.
+Only translate the text content, not code, URLs, or Markdown syntax.
+${PLACEHOLDER_INSTRUCTION}
+Do not add any explanations or notes - output only the numbered cells.
+
+${formatGlossaryForPrompt(glossary)}[CONTEXT - Original table]:
+${original}
+
+[TRANSLATE THESE CELLS]:
+${text}`;
+}
+
+/**
+ * Prompt for the numbered front matter values of a document
+ */
+export function createFrontMatterPrompt(targetLanguage: string, glossary: GlossaryTerm[]): (text: string) => string {
+  return (text) => `You are a professional translator. Translate the following front matter values of a Markdown document to ${targetLanguage}.
+Each value is on its own line and starts with its number in square brackets.
+Output every value with the same number, in the same order.
+${PLACEHOLDER_INSTRUCTION}
+Do not add any explanations or notes - output only the numbered values.
+
+${formatGlossaryForPrompt(glossary)}[TRANSLATE THESE VALUES]:
+${text}`;
+}
+
+/**
+ * Prompt for the numbered texts and attribute values of an HTML block, with the block as context
+ */
+export function createHtmlTextPrompt(
+  targetLanguage: string,
+  glossary: GlossaryTerm[],
+  original: string
+): (text: string) => string {
+  return (text) => `You are a professional translator. Translate the following text from an HTML block of a Markdown document to ${targetLanguage}.
+Each text is on its own line and starts with its number in square brackets.
+Output every text with the same number, in the same order.
+Only translate the text content, not code, URLs, or markup.
+${PLACEHOLDER_INSTRUCTION}
+Do not add any explanations or notes - output only the numbered texts.
+
+${formatGlossaryForPrompt(glossary)}[CONTEXT - Original HTML block]:
+${original}
+
+[TRANSLATE THESE TEXTS]:
+${text}`;
+}
+
+/**
+ * Prompt for the numbered comments and strings of a code block, or the labels of a Mermaid diagram
+ */
+export function createCodeTextPrompt(
+  targetLanguage: string,
+  glossary: GlossaryTerm[],
+  original: string,
+  diagram: boolean
+): (text: string) => string {
+  const source = diagram ? 'labels from a Mermaid diagram' : 'comments and strings from a code block';
+  return (text) => `You are a professional translator. Translate the following ${source} of a Markdown document to ${targetLanguage}.
+Each text is on its own line and starts with its number in square brackets.
+Output every text with the same number, in the same order, and keep each one on a single line.
+Do not translate identifiers, commands, file names, or other code inside the texts.
+${PLACEHOLDER_INSTRUCTION}
+Do not add any explanations or notes - output only the numbered texts.
+
+${formatGlossaryForPrompt(glossary)}[CONTEXT - Original code block]:
+${original}
+
+[TRANSLATE THESE TEXTS]:
+${text}`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Saving the translation of the previewed document to a file
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getLanguageCode } from './language';
+import { formatOutputPath, getOutputPathVariables } from './outputPath';
+import { isMdxPath, restoreLineEndings } from './parser';
+import { rewriteMarkdownLinks, resolveLinkPath, getRelativeLink } from './links';
+
+/**
+ * Get the folder output paths are resolved against and the document path relative to it
+ * Documents outside the workspace use their own directory.
+ */
+function getBase(document: vscode.TextDocument): { baseUri: vscode.Uri; relativePath: string } {
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  if (folder) {
+    return {
+      baseUri: folder.uri,
+      relativePath: path.relative(folder.uri.fsPath, document.uri.fsPath).replace(/\\/g, '/'),
+    };
+  }
+  return {
+    baseUri: vscode.Uri.joinPath(document.uri, '..'),
+    relativePath: path.basename(document.uri.fsPath),
+  };
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Point the relative Markdown links of a translation at the translated documents (the
+ * `rewriteRelativeLinks` setting)
+ * Links to documents without a translation point at the original documents from the output location.
+ * @param getOutputPath - Returns the output path of the translation of a document, if it has one
+ * @param isPlannedOutput - Checks if a translation is about to be written to a path (batch translation)
+ * @returns The translation and the linked documents that have no translation
+ */
+export async function localizeLinks(
+  translation: string,
+  baseUri: vscode.Uri,
+  sourcePath: string,
+  outputPath: string,
+  getOutputPath: (documentPath: string) => string | undefined,
+  isPlannedOutput: (documentPath: string) => boolean = () => false
+): Promise<{ translation: string; untranslated: string[] }> {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  if (!config.get<boolean>('rewriteRelativeLinks', true)) {
+    return { translation, untranslated: [] };
+  }
+
+  const options = { mdx: isMdxPath(sourcePath) };
+  const links = new Set<string>();
+  rewriteMarkdownLinks(translation, (link) => void links.add(link), options);
+
+  const rewrites = new Map<string, string>();
+  const untranslated: string[] = [];
+  for (const link of links) {
+    const target = resolveLinkPath(sourcePath, link);
+    // Broken links and links leaving the workspace are left as they are
+    if (target === undefined || !(await exists(vscode.Uri.joinPath(baseUri, target)))) {
+      continue;
+    }
+    const targetOutput = getOutputPath(target);
+    if (targetOutput && (isPlannedOutput(targetOutput) || (await exists(vscode.Uri.joinPath(baseUri, targetOutput))))) {
+      rewrites.set(link, getRelativeLink(outputPath, targetOutput, link));
+    } else {
+      untranslated.push(target);
+      rewrites.set(link, getRelativeLink(outputPath, target, link));
+    }
+  }
+
+  return { translation: rewriteMarkdownLinks(translation, (link) => rewrites.get(link), options), untranslated };
+}
+
+/**
+ * Write a translation next to its source document using the `saveOutputPattern` setting
+ * Asks before overwriting an existing file, and logs links to documents that have no translation.
+ * @returns The written file, or undefined if the user declined or the pattern is invalid
+ */
+export async function saveTranslation(
+  document: vscode.TextDocument,
+  translation: string,
+  targetLanguage: string,
+  log: (message: string) => void
+): Promise<vscode.Uri | undefined> {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  const pattern = config.get<string>('saveOutputPattern', '{dir}/{name}.{lang}{ext}');
+  const { baseUri, relativePath } = getBase(document);
+
+  const lang = getLanguageCode(targetLanguage);
+  const getOutputPath = (sourcePath: string) => formatOutputPath(pattern, getOutputPathVariables(sourcePath, lang));
+  let outputPath: string;
+  try {
+    outputPath = getOutputPath(relativePath);
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+
+  const outputUri = vscode.Uri.joinPath(baseUri, outputPath);
+  if (outputUri.toString() === document.uri.toString()) {
+    vscode.window.showErrorMessage(`Output path pattern "${pattern}" resolves to the source document itself.`);
+    return undefined;
+  }
+
+  if (await exists(outputUri)) {
+    const answer = await vscode.window.showWarningMessage(
+      `${outputPath} already exists. Overwrite it?`,
+      { modal: true },
+      'Overwrite'
+    );
+    if (answer !== 'Overwrite') {
+      return undefined;
+    }
+  }
+
+  // Partial translations are streamed with LF line endings: write the line ending of the source
+  const lineEnding = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+  const output = restoreLineEndings(translation, lineEnding);
+  const localized = await localizeLinks(output, baseUri, relativePath, outputPath, (sourcePath) => {
+    try {
+      return getOutputPath(sourcePath);
+    } catch {
+      return undefined;
+    }
+  });
+  for (const target of localized.untranslated) {
+    log(`Link to ${target} in ${outputPath} points at the original: it has no ${lang} translation`);
+  }
+
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(outputUri, '..'));
+  await vscode.workspace.fs.writeFile(outputUri, new TextEncoder().encode(localized.translation));
+
+  if (config.get<boolean>('openAfterSave', false)) {
+    const saved = await vscode.workspace.openTextDocument(outputUri);
+    await vscode.window.showTextDocument(saved, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+  } else {
+    vscode.window.showInformationMessage(`Translation saved to ${outputPath}`);
+  }
+  return outputUri;
+}
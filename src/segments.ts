@@ -0,0 +1,392 @@
+/**
+ * Sentence segments of paragraphs and item segments of lists
+ * Long blocks are split into sentences (paragraphs) or items (lists) with their own hashes,
+ * so an edit to one sentence or item only retranslates that segment. Segment translations
+ * are stored by hash next to block translations and reassembled into the block translation.
+ */
+
+import { ListItemChange, MarkdownBlock } from './types/block';
+import { generateHash } from './parser';
+
+/**
+ * A translatable piece of a block
+ */
+export interface BlockSegment {
+  /** Source text of the segment */
+  content: string;
+  /** SHA-256 hash of the content */
+  hash: string;
+}
+
+/**
+ * A block split into segments and the literal text around them (markers, whitespace)
+ */
+export interface SegmentedBlock {
+  /** Segments and literal strings in order; joining them rebuilds the block content */
+  parts: Array<string | BlockSegment>;
+  /** Just the segments, in order */
+  segments: BlockSegment[];
+}
+
+/**
+ * Sentence-ending punctuation (Latin and CJK)
+ */
+const SENTENCE_END = /[.!?。！？．｡]/;
+
+/**
+ * CJK sentence-ending punctuation, which ends a sentence without following whitespace
+ */
+const CJK_SENTENCE_END = /[。！？．｡]/;
+
+/**
+ * Closing quotes, brackets and emphasis markers that belong to the sentence before them
+ */
+const SENTENCE_CLOSING = /["'”’)\]」』）】*_]/;
+
+/**
+ * List item marker (with its indentation and an optional task checkbox) followed by the item text
+ */
+const LIST_ITEM_PATTERN = /^([ \t]*(?:[-+*]|\d{1,9}[.)])(?:[ \t]+\[[ xX]\])?(?:[ \t]+|$))(.*)$/;
+
+/**
+ * Opening or closing line of a code fence (models sometimes wrap numbered segments in one)
+ */
+const FENCE_LINE = /^\s*(?:`{3,}|~{3,})[\w-]*\s*$/;
+
+/**
+ * A list item, without its nested items
+ */
+export interface ListItem {
+  /** Indentation, marker and checkbox (e.g. "  - [ ] ") */
+  marker: string;
+  /** Item text including continuation lines and nested non-list content */
+  text: string;
+  /** Nesting depth (0 for top-level items) */
+  depth: number;
+  /** Text between this item and the next one (newline and blank lines), empty for the last item */
+  separator: string;
+}
+
+/**
+ * Split text into sentences
+ * Code spans and link destinations never end a sentence, and a Latin full stop followed by
+ * a lowercase letter (e.g. "e.g. this") doesn't either.
+ * @returns Sentences with the whitespace that follows each of them
+ */
+export function splitSentences(text: string): Array<{ sentence: string; separator: string }> {
+  const sentences: Array<{ sentence: string; separator: string }> = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      i = close === -1 ? i + run.length : close + run.length;
+      continue;
+    }
+
+    if (char === ']' && text[i + 1] === '(') {
+      const close = text.indexOf(')', i);
+      i = close === -1 ? i + 1 : close + 1;
+      continue;
+    }
+
+    if (!SENTENCE_END.test(char)) {
+      i++;
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < text.length && (SENTENCE_END.test(text[end]) || SENTENCE_CLOSING.test(text[end]))) {
+      end++;
+    }
+    const whitespace = text.slice(end).match(/^\s*/)![0];
+    const next = text[end + whitespace.length];
+    const isBoundary =
+      next !== undefined &&
+      (CJK_SENTENCE_END.test(char) || (whitespace.length > 0 && !/[\p{Ll}\d,;:]/u.test(next)));
+
+    if (isBoundary) {
+      sentences.push({ sentence: text.slice(start, end), separator: whitespace });
+      start = end + whitespace.length;
+    }
+    i = end;
+  }
+
+  const rest = text.slice(start);
+  const trailing = rest.match(/\s*$/)![0];
+  if (rest.length > trailing.length) {
+    sentences.push({ sentence: rest.slice(0, rest.length - trailing.length), separator: trailing });
+  } else if (sentences.length > 0) {
+    sentences[sentences.length - 1].separator += rest;
+  }
+  return sentences;
+}
+
+function pushLiteral(parts: Array<string | BlockSegment>, literal: string): void {
+  if (literal === '') {
+    return;
+  }
+  const last = parts[parts.length - 1];
+  if (typeof last === 'string') {
+    parts[parts.length - 1] = last + literal;
+  } else {
+    parts.push(literal);
+  }
+}
+
+function pushText(parts: Array<string | BlockSegment>, text: string): void {
+  for (const { sentence, separator } of splitSentences(text)) {
+    parts.push({ content: sentence, hash: generateHash(sentence) });
+    pushLiteral(parts, separator);
+  }
+}
+
+/**
+ * Split a list block into its items (nested items become separate items with a greater depth)
+ * Joining `marker + text + separator` of every item rebuilds the block.
+ */
+export function splitListItems(content: string): ListItem[] {
+  const items: ListItem[] = [];
+  const contentIndents: number[] = [];
+  let fence: { char: string; length: number } | undefined;
+
+  for (const [i, line] of content.split('\n').entries()) {
+    const newline = i > 0 ? '\n' : '';
+    const item = fence ? null : line.match(LIST_ITEM_PATTERN);
+
+    if (item) {
+      const indent = item[1].match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+      while (contentIndents.length > 0 && indent < contentIndents[contentIndents.length - 1]) {
+        contentIndents.pop();
+      }
+      items.push({ marker: item[1], text: item[2], depth: contentIndents.length, separator: '' });
+      // Nested items are indented at least past the marker
+      contentIndents.push(indent + item[1].trim().match(/^(?:[-+*]|\d+[.)])/)![0].length + 1);
+      if (items.length > 1) {
+        items[items.length - 2].separator += newline;
+      }
+    } else if (items.length > 0) {
+      const current = items[items.length - 1];
+      if (line.trim() === '') {
+        // Blank lines belong to the item text only if more text follows
+        current.separator += newline + line;
+      } else {
+        current.text += current.separator + newline + line;
+        current.separator = '';
+      }
+    }
+
+    // Track fences so Markdown inside code is never taken for list items
+    const fenceMatch = (item ? item[2] : line).match(/^\s*(`{3,}|~{3,})\s*([^`]*)$/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = { char: marker[0], length: marker.length };
+      } else if (marker[0] === fence.char && marker.length >= fence.length && fenceMatch[2].trim() === '') {
+        fence = undefined;
+      }
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Split a list into item markers (kept literally) and item texts (one segment per item)
+ */
+function segmentList(content: string): Array<string | BlockSegment> {
+  const parts: Array<string | BlockSegment> = [];
+  for (const item of splitListItems(content)) {
+    pushLiteral(parts, item.marker);
+    if (item.text !== '') {
+      parts.push({ content: item.text, hash: generateHash(item.text) });
+    }
+    pushLiteral(parts, item.separator);
+  }
+  return parts;
+}
+
+/**
+ * Split a paragraph into sentence segments, or a list into item segments
+ * @returns The segmented block, or undefined if the block has fewer than two segments
+ */
+export function segmentBlock(block: Pick<MarkdownBlock, 'type' | 'content'>): SegmentedBlock | undefined {
+  let parts: Array<string | BlockSegment> | undefined;
+  if (block.type === 'paragraph') {
+    parts = [];
+    pushText(parts, block.content);
+  } else if (block.type === 'list') {
+    parts = segmentList(block.content);
+  }
+
+  const segments = (parts ?? []).filter((part): part is BlockSegment => typeof part !== 'string');
+  return parts && segments.length > 1 ? { parts, segments } : undefined;
+}
+
+/**
+ * Rebuild a block from segment translations (segments without a translation keep their source)
+ * Whitespace between sentences is dropped after CJK sentence punctuation.
+ */
+export function joinSegments(segmented: SegmentedBlock, translations: Map<string, string>): string {
+  let result = '';
+  segmented.parts.forEach((part, i) => {
+    if (typeof part !== 'string') {
+      result += translations.get(part.hash) ?? part.content;
+      return;
+    }
+    const betweenSentences = typeof segmented.parts[i + 1] !== 'string' && /^[ \t]+$/.test(part);
+    if (!(betweenSentences && CJK_SENTENCE_END.test(result.slice(-1)))) {
+      result += part;
+    }
+  });
+  return result;
+}
+
+/**
+ * Pair the sentences of block translations with their source sentences
+ * Only blocks whose translation has the same number of segments and the same markers
+ * are paired; other blocks are left out.
+ * @returns Segment translations (segment hash -> translation)
+ */
+export function alignSegmentTranslations(
+  blocks: MarkdownBlock[],
+  translations: Map<string, string>
+): Map<string, string> {
+  const segmentTranslations = new Map<string, string>();
+  const isContent = (part: string | BlockSegment) => typeof part !== 'string' || part.trim() !== '';
+
+  for (const block of blocks) {
+    const translation = translations.get(block.hash);
+    const source = translation !== undefined ? segmentBlock(block) : undefined;
+    const translated = source && segmentBlock({ type: block.type, content: translation! });
+    if (!source || !translated) {
+      continue;
+    }
+
+    const sourceParts = source.parts.filter(isContent);
+    const translatedParts = translated.parts.filter(isContent);
+    const matches =
+      sourceParts.length === translatedParts.length &&
+      sourceParts.every((part, i) => {
+        const other = translatedParts[i];
+        return typeof part === 'string' ? typeof other === 'string' && part.trim() === other.trim() : typeof other !== 'string';
+      });
+    if (!matches) {
+      continue;
+    }
+
+    sourceParts.forEach((part, i) => {
+      const other = translatedParts[i];
+      if (typeof part !== 'string' && typeof other !== 'string') {
+        segmentTranslations.set(part.hash, other.content);
+      }
+    });
+  }
+
+  return segmentTranslations;
+}
+
+/**
+ * Count the segments of a new block that don't appear in the old block
+ * @returns The number of changed segments, or undefined if either block isn't segmented
+ */
+export function countChangedSegments(oldBlock: MarkdownBlock, newBlock: MarkdownBlock): number | undefined {
+  const oldSegments = segmentBlock(oldBlock);
+  const newSegments = segmentBlock(newBlock);
+  if (!oldSegments || !newSegments) {
+    return undefined;
+  }
+  const oldHashes = new Set(oldSegments.segments.map((segment) => segment.hash));
+  return newSegments.segments.filter((segment) => !oldHashes.has(segment.hash)).length;
+}
+
+/**
+ * Match the items of two versions of a list
+ * Items with identical content (marker and text) are matched in order; unmatched items
+ * between two matches are paired up as modified, the rest are added or removed.
+ */
+export function diffListItems(oldContent: string, newContent: string): ListItemChange[] {
+  const key = (item: ListItem) => item.marker + item.text;
+  const oldKeys = splitListItems(oldContent).map(key);
+  const newKeys = splitListItems(newContent).map(key);
+
+  // Longest common subsequence table
+  const lcs: number[][] = Array.from({ length: oldKeys.length + 1 }, () => new Array<number>(newKeys.length + 1).fill(0));
+  for (let i = oldKeys.length - 1; i >= 0; i--) {
+    for (let j = newKeys.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldKeys[i] === newKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: ListItemChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({ type: 'modified', oldIndex: removed[k], newIndex: added[k] });
+    }
+    removed.slice(paired).forEach((oldIndex) => changes.push({ type: 'removed', oldIndex }));
+    added.slice(paired).forEach((newIndex) => changes.push({ type: 'added', newIndex }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < oldKeys.length || j < newKeys.length) {
+    if (i < oldKeys.length && j < newKeys.length && oldKeys[i] === newKeys[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j >= newKeys.length || (i < oldKeys.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+/**
+ * Format segments as numbered lines ("[1] text") for a translation request
+ */
+export function formatNumberedSegments(texts: string[]): string {
+  return texts.map((text, i) => `[${i + 1}] ${text}`).join('\n');
+}
+
+/**
+ * Read numbered segments back from a translation response
+ * Lines without a number continue the segment before them if its source has several lines, and
+ * are ignored as noise otherwise. A code fence around the whole response is removed.
+ * @param sources - The segments that were sent, in order
+ * @returns The translation of each segment, undefined for segments missing from the response
+ */
+export function parseNumberedSegments(text: string, sources: string[]): Array<string | undefined> {
+  const segments = new Array<string | undefined>(sources.length).fill(undefined);
+  const lines = text.trim().split('\n');
+  if (lines.length > 1 && FENCE_LINE.test(lines[0]) && FENCE_LINE.test(lines[lines.length - 1])) {
+    lines.splice(-1, 1);
+    lines.splice(0, 1);
+  }
+
+  let current = -1;
+  for (const line of lines) {
+    const match = line.match(/^\s*\[(\d+)\][ \t]?(.*)$/);
+    if (match) {
+      current = Number(match[1]) - 1;
+      if (current >= 0 && current < sources.length) {
+        segments[current] = match[2];
+      }
+    } else if (current >= 0 && current < sources.length && sources[current].includes('\n')) {
+      segments[current] += '\n' + line;
+    }
+  }
+  return segments.map((segment) => (segment?.trim() ? segment.trim() : undefined));
+}
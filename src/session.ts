@@ -1,12 +1,13 @@
-import * as vscode from 'vscode';
 import { ParsedDocument, BlockDiff, BlockChange, MarkdownBlock } from './types/block';
 import { parseMarkdownToBlocks } from './parser';
+import { countChangedSegments, diffListItems } from './segments';
+import type { ChatMessage, TranslationModel } from './types/backend';
 
 export interface SessionState {
   originalContent: string;
   translatedContent: string;
-  messages: vscode.LanguageModelChatMessage[];
-  model: vscode.LanguageModelChat | null;
+  messages: ChatMessage[];
+  model: TranslationModel | null;
   /** Parsed document for block-based diffing */
   parsedDocument?: ParsedDocument;
   /** Block translations cache (hash -> translation) */
@@ -41,8 +42,8 @@ export class TranslationSession {
   initSession(
     originalContent: string,
     translatedContent: string,
-    messages: vscode.LanguageModelChatMessage[],
-    model: vscode.LanguageModelChat,
+    messages: ChatMessage[],
+    model: TranslationModel,
     parsedDocument?: ParsedDocument,
     blockTranslations?: Map<string, string>,
     translatedUpToBlockIndex?: number
@@ -64,7 +65,7 @@ export class TranslationSession {
   updateSession(
     originalContent: string,
     translatedContent: string,
-    newMessages: vscode.LanguageModelChatMessage[],
+    newMessages: ChatMessage[],
     parsedDocument?: ParsedDocument,
     blockTranslations?: Map<string, string>,
     translatedUpToBlockIndex?: number
@@ -94,7 +95,7 @@ export class TranslationSession {
   /**
    * Update the model used in the session
    */
-  updateModel(model: vscode.LanguageModelChat): void {
+  updateModel(model: TranslationModel): void {
     if (this.state) {
       this.state.model = model;
     }
@@ -131,8 +132,9 @@ export class TranslationSession {
   /**
    * Detect block-level changes between old and new content
    * Returns a BlockDiff with changed, added, removed blocks
+   * @param newDocument - New content already parsed (e.g. incrementally while editing)
    */
-  detectBlockChanges(newContent: string): BlockDiff | null {
+  detectBlockChanges(newContent: string, newDocument?: ParsedDocument): BlockDiff | null {
     if (!this.state) return null;
 
     const oldDocument = this.state.parsedDocument;
@@ -140,20 +142,24 @@ export class TranslationSession {
       // No parsed document - parse now
       const parsed = parseMarkdownToBlocks(this.state.originalContent);
       this.state.parsedDocument = parsed;
-      return this.detectBlockChangesInternal(parsed, newContent);
+      return this.detectBlockChangesInternal(parsed, newDocument ?? parseMarkdownToBlocks(newContent));
     }
 
-    return this.detectBlockChangesInternal(oldDocument, newContent);
+    return this.detectBlockChangesInternal(
+      oldDocument,
+      newDocument ?? parseMarkdownToBlocks(newContent, { mdx: oldDocument.mdx })
+    );
   }
 
   /**
    * Internal implementation of block change detection
    */
-  private detectBlockChangesInternal(oldDocument: ParsedDocument, newContent: string): BlockDiff | null {
-    const newDocument = parseMarkdownToBlocks(newContent);
-
-    // Quick check: if document hashes match, no changes
-    if (oldDocument.documentHash === newDocument.documentHash) {
+  private detectBlockChangesInternal(oldDocument: ParsedDocument, newDocument: ParsedDocument): BlockDiff | null {
+    // Quick check: if the block hashes match, no changes
+    if (
+      oldDocument.blocks.length === newDocument.blocks.length &&
+      oldDocument.blocks.every((block, i) => block.hash === newDocument.blocks[i].hash)
+    ) {
       return null;
     }
 
@@ -238,6 +244,9 @@ export class TranslationSession {
           newIndex: newBlock.index,
           oldBlock: bestMatch,
           newBlock: newBlock,
+          ...(newBlock.type === 'list'
+            ? { itemChanges: diffListItems(bestMatch.content, newBlock.content) }
+            : { changedSegments: countChangedSegments(bestMatch, newBlock) }),
         });
       }
     }
@@ -272,7 +281,13 @@ export class TranslationSession {
     });
 
     if (changes.length === 0) {
-      return null;
+      // Same blocks in a different order: nothing to translate, but the translation must be re-merged
+      return {
+        hasChanges: true,
+        changes,
+        unchangedBlocks,
+        summary: 'blocks moved',
+      };
     }
 
     return {
@@ -296,6 +311,22 @@ export class TranslationSession {
     if (removed > 0) parts.push(`${removed} block${removed > 1 ? 's' : ''} removed`);
     if (modified > 0) parts.push(`${modified} block${modified > 1 ? 's' : ''} modified`);
 
+    // Item- and sentence-level detail of modified lists and paragraphs
+    const modifiedChanges = changes.filter((c) => c.type === 'modified');
+    const details: string[] = [];
+    const itemChanges = modifiedChanges.flatMap((c) => c.itemChanges ?? []);
+    for (const type of ['added', 'removed', 'modified'] as const) {
+      const count = itemChanges.filter((c) => c.type === type).length;
+      if (count > 0) details.push(`${count} item${count > 1 ? 's' : ''} ${type}`);
+    }
+    if (modified > 0 && modifiedChanges.every((c) => c.changedSegments !== undefined)) {
+      const sentences = modifiedChanges.reduce((total, c) => total + c.changedSegments!, 0);
+      details.push(`${sentences} sentence${sentences === 1 ? '' : 's'} changed`);
+    }
+    if (details.length > 0) {
+      parts[parts.length - 1] += ` (${details.join(', ')})`;
+    }
+
     return parts.join(', ');
   }
 
@@ -0,0 +1,137 @@
+/**
+ * GFM tables split into cells
+ * Only cell text is translated; tables are rebuilt from the source structure (column count and
+ * alignment row) with the column padding recomputed for the translated cell widths.
+ */
+
+import { generateHash, splitTableRow } from './parser';
+import { BlockSegment } from './segments';
+
+export type TableAlignment = 'none' | 'left' | 'center' | 'right';
+
+/**
+ * A table parsed into header, alignment row and body rows
+ */
+export interface ParsedTable {
+  /** Indentation of the table (at most 3 spaces) */
+  indent: string;
+  /** Header cell texts */
+  header: string[];
+  /** Alignment of each column, from the delimiter row */
+  alignments: TableAlignment[];
+  /** Body rows, each with exactly as many cells as the header */
+  rows: string[][];
+}
+
+/**
+ * East Asian wide and fullwidth characters, which take two columns in a monospace editor
+ */
+const WIDE_CHARACTER = /[ᄀ-ᅟ⺀-〾ぁ-㏿㐀-䶿一-鿿ꀀ-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]/;
+
+function parseAlignment(cell: string): TableAlignment {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) {
+    return 'center';
+  }
+  return left ? 'left' : right ? 'right' : 'none';
+}
+
+/**
+ * Parse a table block
+ * Body rows are padded with empty cells or cut to the header's column count, as GFM renders them.
+ * @returns The parsed table, or undefined if the content has no delimiter row matching the header
+ */
+export function parseTable(content: string): ParsedTable | undefined {
+  const lines = content.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length < 2) {
+    return undefined;
+  }
+  const header = splitTableRow(lines[0]).map((cell) => cell.trim());
+  const delimiter = splitTableRow(lines[1]).map((cell) => cell.trim());
+  if (delimiter.length !== header.length || !delimiter.every((cell) => /^:?-+:?$/.test(cell))) {
+    return undefined;
+  }
+
+  const rows = lines.slice(2).map((line) => {
+    const cells = splitTableRow(line).map((cell) => cell.trim());
+    return header.map((_, column) => cells[column] ?? '');
+  });
+  return {
+    indent: lines[0].match(/^ {0,3}/)![0],
+    header,
+    alignments: delimiter.map(parseAlignment),
+    rows,
+  };
+}
+
+/**
+ * Get the number of columns a string takes in a monospace editor
+ */
+export function getDisplayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHARACTER.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+function padCell(text: string, width: number, alignment: TableAlignment): string {
+  const padding = width - getDisplayWidth(text);
+  if (alignment === 'right') {
+    return ' '.repeat(padding) + text;
+  }
+  if (alignment === 'center') {
+    const left = Math.floor(padding / 2);
+    return ' '.repeat(left) + text + ' '.repeat(padding - left);
+  }
+  return text + ' '.repeat(padding);
+}
+
+function formatDelimiter(width: number, alignment: TableAlignment): string {
+  const left = alignment === 'left' || alignment === 'center' ? ':' : '';
+  const right = alignment === 'right' || alignment === 'center' ? ':' : '';
+  return left + '-'.repeat(width - left.length - right.length) + right;
+}
+
+/**
+ * Rebuild a table with every column padded to its widest cell
+ */
+export function formatTable(table: ParsedTable): string {
+  const widths = table.alignments.map((_, column) =>
+    Math.max(3, ...[table.header, ...table.rows].map((row) => getDisplayWidth(row[column])))
+  );
+  const formatRow = (cells: string[]) => `${table.indent}| ${cells.join(' | ')} |`;
+
+  return [
+    formatRow(table.header.map((cell, column) => padCell(cell, widths[column], table.alignments[column]))),
+    formatRow(table.alignments.map((alignment, column) => formatDelimiter(widths[column], alignment))),
+    ...table.rows.map((row) => formatRow(row.map((cell, column) => padCell(cell, widths[column], table.alignments[column])))),
+  ].join('\n');
+}
+
+/**
+ * Replace the text of every cell
+ * Line breaks are folded into spaces and unescaped pipes are escaped, so a translated cell
+ * can never add rows or columns.
+ */
+export function mapTableCells(table: ParsedTable, map: (cell: string) => string): ParsedTable {
+  const mapCell = (cell: string) =>
+    map(cell)
+      .trim()
+      .replace(/\s*\n\s*/g, ' ')
+      .replace(/(?<!\\)\|/g, '\\|');
+  return {
+    ...table,
+    header: table.header.map(mapCell),
+    rows: table.rows.map((row) => row.map(mapCell)),
+  };
+}
+
+/**
+ * Get the translatable cells of a table (cells with letters, each text only once)
+ */
+export function getTableCellSegments(table: ParsedTable): BlockSegment[] {
+  const cells = [...table.header, ...table.rows.flat()].filter((cell) => /\p{L}/u.test(cell));
+  return [...new Set(cells)].map((cell) => ({ content: cell, hash: generateHash(cell) }));
+}
@@ -1,14 +1,52 @@
 import * as vscode from 'vscode';
 import { translationCache } from './cache';
 import { translationSession, ContentDiff, BlockDiff, ParsedDocument, MarkdownBlock } from './session';
-import { parseMarkdownToBlocks, blocksToContent } from './parser';
+import { parseMarkdownToBlocks, blocksToContent, generateHash, isMdxPath, ParseOptions } from './parser';
 import { BlockTranslationContext } from './types/block';
-
-/**
- * Internal maximum chunk size to avoid "Response too long" errors.
- * User-selected chunk sizes larger than this will be auto-split into multiple requests.
- */
-const INTERNAL_MAX_CHUNK_SIZE = 10000;
+import { getTranslationMemory } from './memory';
+import { loadGlossary } from './glossary';
+import {
+  GlossaryTerm,
+  GlossaryViolation,
+  formatGlossaryForPrompt,
+  findGlossaryViolations,
+  checkBlockGlossary,
+} from './glossaryTerms';
+import {
+  createSegmentPrompt,
+  createTableCellPrompt,
+  createFrontMatterPrompt,
+  createHtmlTextPrompt,
+  createCodeTextPrompt,
+} from './prompts';
+import {
+  selectBlocksForChunk,
+  splitIntoInternalChunks,
+  buildBlockTranslationMap,
+  buildBlockTranslationMapForRange,
+  mergeTranslatedBlocks,
+  isPassthroughBlock,
+  splitFootnoteDefinition,
+} from './blocks';
+import { alignBlockTranslations, describeValidationFailure } from './validation';
+import {
+  BlockSegment,
+  segmentBlock,
+  joinSegments,
+  alignSegmentTranslations,
+  formatNumberedSegments,
+  parseNumberedSegments,
+} from './segments';
+import { parseTable, formatTable, mapTableCells, getTableCellSegments } from './table';
+import { parseFrontMatter, getTranslatableFields, getFrontMatterSegments, serializeFrontMatter } from './frontMatter';
+import { segmentHtml, getHtmlAttributeSegments, translateHtmlAttributes } from './html';
+import { parseContainer, formatContainer, getContainerBlocks } from './container';
+import { segmentCodeBlock, joinCodeSegments, getCodeLanguage, SegmentedCode } from './codeComments';
+import { segmentMermaidBlock } from './mermaid';
+import { getHeadingAnchorTransform, HeadingAnchorMode } from './anchors';
+import { ChatMessage, TranslationModel } from './types/backend';
+import { listModels, getModel } from './backends';
+import { maskMarkdown, unmaskMarkdown, isUnmaskValid, createStreamingUnmasker, PLACEHOLDER_INSTRUCTION } from './placeholder';
 
 export interface TranslationResult {
   success: boolean;
@@ -24,6 +62,10 @@ export interface TranslationResult {
   translatedUpToBlockIndex?: number;
   /** Whether there are more blocks to translate */
   hasMoreBlocks?: boolean;
+  /** Translated blocks that miss a required glossary term */
+  glossaryViolations?: GlossaryViolation[];
+  /** Other problems noticed while translating (shown in the preview) */
+  warnings?: string[];
 }
 
 export interface TranslationProgress {
@@ -38,49 +80,29 @@ export interface ModelInfo {
   vendor: string;
   family: string;
   maxInputTokens: number;
+  /** Display name of the backend providing the model */
+  backend: string;
 }
 
 /**
- * Get available language models
+ * Get available language models from all backends
  */
 export async function getAvailableModels(): Promise<ModelInfo[]> {
   try {
-    const models = await vscode.lm.selectChatModels({});
+    const models = await listModels();
     return models.map((model) => ({
       id: model.id,
       name: model.name,
       vendor: model.vendor,
       family: model.family,
       maxInputTokens: model.maxInputTokens,
+      backend: model.backend.label,
     }));
   } catch {
     return [];
   }
 }
 
-/**
- * Get model by ID or return first available
- */
-async function getModel(modelId?: string): Promise<vscode.LanguageModelChat | null> {
-  const allModels = await vscode.lm.selectChatModels({});
-
-  if (allModels.length === 0) {
-    return null;
-  }
-
-  // If modelId is specified, try to find it
-  if (modelId) {
-    const selectedModel = allModels.find((m) => m.id === modelId);
-    if (selectedModel) {
-      return selectedModel;
-    }
-  }
-
-  // Fall back to first copilot model or any available model
-  const copilotModel = allModels.find((m) => m.vendor === 'copilot');
-  return copilotModel || allModels[0];
-}
-
 /**
  * Translate content using VSCode LanguageModel API
  * Supports both initial translation and incremental updates
@@ -90,7 +112,8 @@ export async function translateContent(
   targetLanguage: string,
   token: vscode.CancellationToken,
   onProgress?: (progress: TranslationProgress) => void,
-  modelId?: string
+  modelId?: string,
+  documentUri?: vscode.Uri
 ): Promise<TranslationResult> {
   const config = vscode.workspace.getConfiguration('markdownTranslate');
   const enableCache = config.get<boolean>('enableCache', true);
@@ -118,7 +141,8 @@ export async function translateContent(
     onProgress?.({ current: 0, total: 1, message: 'Translating...' });
 
     // Perform translation
-    const result = await performInitialTranslation(content, targetLanguage, model, token);
+    const glossary = await loadGlossary(targetLanguage, documentUri);
+    const result = await performInitialTranslation(content, targetLanguage, model, token, glossary);
 
     onProgress?.({ current: 1, total: 1, message: 'Translation complete' });
 
@@ -135,6 +159,8 @@ export async function translateContent(
 export interface StreamingOptions {
   modelId?: string;
   bypassCache?: boolean;
+  /** Source document URI (used to locate the workspace glossary) */
+  documentUri?: vscode.Uri;
 }
 
 /**
@@ -175,7 +201,8 @@ export async function translateContentStreaming(
     }
 
     // Perform streaming translation
-    const result = await performStreamingTranslation(content, targetLanguage, model, token, onChunk);
+    const glossary = await loadGlossary(targetLanguage, options?.documentUri);
+    const result = await performStreamingTranslation(content, targetLanguage, model, token, onChunk, glossary);
 
     // Check cancellation AFTER translation completes - don't cache or use cancelled translations
     if (token.isCancellationRequested) {
@@ -202,38 +229,39 @@ export async function translateContentStreaming(
 async function performStreamingTranslation(
   content: string,
   targetLanguage: string,
-  model: vscode.LanguageModelChat,
+  model: TranslationModel,
   token: vscode.CancellationToken,
-  onChunk: (chunk: string) => void
+  onChunk: (chunk: string) => void,
+  glossary: GlossaryTerm[]
 ): Promise<TranslationResult> {
-  const prompt = `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
+  const buildPrompt = (text: string) => `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
 Preserve all Markdown formatting, code blocks, links, and structure exactly as they are.
 Only translate the text content, not code or URLs.
+${PLACEHOLDER_INSTRUCTION}
 Do not add any explanations or notes - output only the translated Markdown.
 
-[Content to translate]
-
-${content}`;
+${formatGlossaryForPrompt(glossary)}[Content to translate]
 
-  const userMessage = vscode.LanguageModelChatMessage.User(prompt);
-  const messages = [userMessage];
+${text}`;
 
-  const response = await model.sendRequest(messages, {}, token);
-
-  let translation = '';
-  for await (const fragment of response.text) {
-    if (token.isCancellationRequested) {
-      throw new Error('Translation cancelled');
-    }
-    translation += fragment;
-    onChunk(fragment);
+  const { translation, userMessage, cancelled, unprotected } = await requestProtectedTranslation(
+    content,
+    buildPrompt,
+    model,
+    token,
+    onChunk
+  );
+  if (cancelled) {
+    throw new Error('Translation cancelled');
   }
 
   // Store in session for future incremental updates
-  const assistantMessage = vscode.LanguageModelChatMessage.Assistant(translation);
+  const assistantMessage: ChatMessage = { role: 'assistant', content: translation };
   translationSession.initSession(content, translation, [userMessage, assistantMessage], model);
 
-  return { success: true, translation };
+  const glossaryViolations = findGlossaryViolations(content, translation, glossary);
+  const warnings = unprotected ? [describeUnprotectedTranslation()] : [];
+  return { success: true, translation, glossaryViolations, warnings };
 }
 
 /**
@@ -300,36 +328,37 @@ export async function translateIncremental(
 async function performInitialTranslation(
   content: string,
   targetLanguage: string,
-  model: vscode.LanguageModelChat,
-  token: vscode.CancellationToken
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[]
 ): Promise<TranslationResult> {
-  const prompt = `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
+  const buildPrompt = (text: string) => `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
 Preserve all Markdown formatting, code blocks, links, and structure exactly as they are.
 Only translate the text content, not code or URLs.
+${PLACEHOLDER_INSTRUCTION}
 Do not add any explanations or notes - output only the translated Markdown.
 
-[Content to translate]
+${formatGlossaryForPrompt(glossary)}[Content to translate]
 
-${content}`;
+${text}`;
 
-  const userMessage = vscode.LanguageModelChatMessage.User(prompt);
-  const messages = [userMessage];
-
-  const response = await model.sendRequest(messages, {}, token);
-
-  let translation = '';
-  for await (const fragment of response.text) {
-    if (token.isCancellationRequested) {
-      throw new Error('Translation cancelled');
-    }
-    translation += fragment;
+  const { translation, userMessage, cancelled, unprotected } = await requestProtectedTranslation(
+    content,
+    buildPrompt,
+    model,
+    token
+  );
+  if (cancelled) {
+    throw new Error('Translation cancelled');
   }
 
   // Store in session for future incremental updates
-  const assistantMessage = vscode.LanguageModelChatMessage.Assistant(translation);
+  const assistantMessage: ChatMessage = { role: 'assistant', content: translation };
   translationSession.initSession(content, translation, [userMessage, assistantMessage], model);
 
-  return { success: true, translation };
+  const glossaryViolations = findGlossaryViolations(content, translation, glossary);
+  const warnings = unprotected ? [describeUnprotectedTranslation()] : [];
+  return { success: true, translation, glossaryViolations, warnings };
 }
 
 /**
@@ -339,19 +368,19 @@ async function performIncrementalTranslation(
   newContent: string,
   targetLanguage: string,
   diff: ContentDiff,
-  session: { messages: vscode.LanguageModelChatMessage[]; model: vscode.LanguageModelChat; translatedContent: string },
+  session: { messages: ChatMessage[]; model: TranslationModel; translatedContent: string },
   token: vscode.CancellationToken
 ): Promise<TranslationResult> {
   const updatePrompt = translationSession.formatDiffForPrompt(diff, newContent);
-  const userMessage = vscode.LanguageModelChatMessage.User(updatePrompt);
+  const userMessage: ChatMessage = { role: 'user', content: updatePrompt };
 
   // Build messages with conversation history
   const messages = [...session.messages, userMessage];
 
-  const response = await session.model.sendRequest(messages, {}, token);
+  const response = await session.model.sendRequest(messages, token);
 
   let translation = '';
-  for await (const fragment of response.text) {
+  for await (const fragment of response) {
     if (token.isCancellationRequested) {
       throw new Error('Translation cancelled');
     }
@@ -359,7 +388,7 @@ async function performIncrementalTranslation(
   }
 
   // Update session with new content
-  const assistantMessage = vscode.LanguageModelChatMessage.Assistant(translation);
+  const assistantMessage: ChatMessage = { role: 'assistant', content: translation };
   translationSession.updateSession(newContent, translation, [userMessage, assistantMessage]);
 
   // Update cache
@@ -371,6 +400,106 @@ async function performIncrementalTranslation(
   return { success: true, translation, incremental: true };
 }
 
+interface ProtectedTranslation {
+  /** Translation with placeholders restored */
+  translation: string;
+  /** Request message for the unmasked content (for session history) */
+  userMessage: ChatMessage;
+  /** Whether the request was cancelled before completing */
+  cancelled: boolean;
+  /** Whether placeholders kept getting lost and the content was sent without protection */
+  unprotected: boolean;
+}
+
+/**
+ * Send a single request and collect the streamed response
+ */
+async function sendTranslationRequest(
+  message: ChatMessage,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  onFragment?: (fragment: string) => void
+): Promise<{ text: string; cancelled: boolean }> {
+  const response = await model.sendRequest([message], token);
+
+  let text = '';
+  for await (const fragment of response) {
+    if (token.isCancellationRequested) {
+      return { text, cancelled: true };
+    }
+    text += fragment;
+    onFragment?.(fragment);
+  }
+  return { text, cancelled: false };
+}
+
+/**
+ * Translate content with inline code, link destinations, HTML and math protected by placeholders
+ * Restored fragments are streamed to onFragment. If the model loses or duplicates placeholders,
+ * the request is retried once and finally sent without protection. Retries are not streamed,
+ * so callers must use the returned translation rather than the streamed text.
+ */
+async function requestProtectedTranslation(
+  content: string,
+  buildPrompt: (content: string) => string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  onFragment?: (fragment: string) => void
+): Promise<ProtectedTranslation> {
+  const userMessage: ChatMessage = { role: 'user', content: buildPrompt(content) };
+  const masked = maskMarkdown(content);
+
+  if (masked.placeholders.size === 0) {
+    const { text, cancelled } = await sendTranslationRequest(userMessage, model, token, onFragment);
+    return { translation: text, userMessage, cancelled, unprotected: false };
+  }
+
+  const maskedMessage: ChatMessage = { role: 'user', content: buildPrompt(masked.text) };
+  const unmasker = createStreamingUnmasker(masked.placeholders);
+  const first = await sendTranslationRequest(maskedMessage, model, token, (fragment) => {
+    const restored = unmasker.push(fragment);
+    if (restored) {
+      onFragment?.(restored);
+    }
+  });
+  const rest = unmasker.flush();
+  if (rest) {
+    onFragment?.(rest);
+  }
+
+  let unmasked = unmaskMarkdown(first.text, masked.placeholders);
+  if (first.cancelled || isUnmaskValid(unmasked)) {
+    return { translation: unmasked.text, userMessage, cancelled: first.cancelled, unprotected: false };
+  }
+
+  // Placeholders were lost or duplicated - retry once
+  const retry = await sendTranslationRequest(maskedMessage, model, token);
+  if (retry.cancelled) {
+    return { translation: unmasked.text, userMessage, cancelled: true, unprotected: false };
+  }
+  unmasked = unmaskMarkdown(retry.text, masked.placeholders);
+  if (isUnmaskValid(unmasked)) {
+    return { translation: unmasked.text, userMessage, cancelled: false, unprotected: false };
+  }
+
+  // Fall back to translating without placeholder protection
+  const fallback = await sendTranslationRequest(userMessage, model, token);
+  return { translation: fallback.text, userMessage, cancelled: fallback.cancelled, unprotected: true };
+}
+
+/**
+ * Describe a translation that had to be sent without placeholder protection
+ */
+function describeUnprotectedTranslation(blocks?: MarkdownBlock[]): string {
+  let location = 'Document';
+  if (blocks && blocks.length === 1) {
+    location = `Block ${blocks[0].index + 1}`;
+  } else if (blocks && blocks.length > 1) {
+    location = `Blocks ${blocks[0].index + 1}-${blocks[blocks.length - 1].index + 1}`;
+  }
+  return `${location}: the model did not keep inline code, link and HTML placeholders, so it was translated without protection`;
+}
+
 /**
  * Handle translation errors
  */
@@ -430,6 +559,8 @@ export interface BlockTranslationOptions {
   bypassCache?: boolean;
   /** Chunk size in characters for block-based chunking */
   chunkSize?: number;
+  /** Source document URI (used to locate the workspace translation memory) */
+  documentUri?: vscode.Uri;
 }
 
 /**
@@ -449,14 +580,15 @@ export async function translateContentBlockBased(
   const chunkSize = options?.chunkSize ?? config.get<number>('chunkSize', 5000);
 
   // Parse content into blocks
-  const parsedDocument = parseMarkdownToBlocks(content);
+  const parseOptions = getParseOptions(options);
+  const parsedDocument = parseMarkdownToBlocks(content, parseOptions);
 
   // Check document-level cache first (unless bypassing)
   if (enableCache && !bypassCache) {
     const cached = translationCache.get(content);
     if (cached) {
       onChunk(cached);
-      const parsedTranslation = parseMarkdownToBlocks(cached);
+      const parsedTranslation = parseMarkdownToBlocks(cached, parseOptions);
       const blockTranslations = buildBlockTranslationMap(parsedDocument, parsedTranslation);
       return {
         success: true,
@@ -493,76 +625,22 @@ export async function translateContentBlockBased(
     // Split blocks into internal chunks to avoid "Response too long" errors
     const internalChunks = splitIntoInternalChunks(blocksToTranslate);
 
-    let fullTranslation = '';
-    const allBlockTranslations = new Map<string, string>();
-    const allMessages: vscode.LanguageModelChatMessage[] = [];
-    let cancelledDuringStream = false;
-    let lastTranslatedBlockIndex = -1;
-
-    // Process each internal chunk
-    for (let chunkIndex = 0; chunkIndex < internalChunks.length; chunkIndex++) {
-      if (token.isCancellationRequested) {
-        cancelledDuringStream = true;
-        break;
-      }
-
-      const internalBlocks = internalChunks[chunkIndex];
-      const contentToTranslate = internalBlocks.map((b) => b.content).join('\n');
-
-      // Add newline separator between internal chunks
-      if (chunkIndex > 0 && fullTranslation.length > 0) {
-        fullTranslation += '\n';
-        onChunk('\n');
-      }
-
-      // Translate the internal chunk
-      const prompt = `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
-Preserve all Markdown formatting, code blocks, links, and structure exactly as they are.
-Only translate the text content, not code or URLs.
-Do not add any explanations or notes - output only the translated Markdown.
-
-[Content to translate]
-
-${contentToTranslate}`;
+    const glossary = await loadGlossary(targetLanguage, options?.documentUri);
 
-      const userMessage = vscode.LanguageModelChatMessage.User(prompt);
-      const response = await model.sendRequest([userMessage], {}, token);
-
-      let chunkTranslation = '';
-      for await (const fragment of response.text) {
-        if (token.isCancellationRequested) {
-          cancelledDuringStream = true;
-          break;
-        }
-        chunkTranslation += fragment;
-        fullTranslation += fragment;
-        onChunk(fragment);
-      }
-
-      // Parse and map translations for this internal chunk
-      const parsedChunkTranslation = parseMarkdownToBlocks(chunkTranslation);
-      const chunkBlockTranslations = buildBlockTranslationMapForRange(
-        internalBlocks,
-        parsedChunkTranslation
-      );
-
-      // Merge into all block translations
-      for (const [hash, translation] of chunkBlockTranslations) {
-        allBlockTranslations.set(hash, translation);
-      }
-
-      // Track messages for session
-      const assistantMessage = vscode.LanguageModelChatMessage.Assistant(chunkTranslation);
-      allMessages.push(userMessage, assistantMessage);
-
-      // Calculate last translated block index (relative to full document)
-      const blocksBeforeThisChunk = internalChunks.slice(0, chunkIndex).reduce((sum, c) => sum + c.length, 0);
-      lastTranslatedBlockIndex = blocksBeforeThisChunk + Math.min(parsedChunkTranslation.blocks.length, internalBlocks.length) - 1;
+    // Reuse translations from the workspace translation memory (unless bypassing)
+    const memory = getTranslationMemory(options?.documentUri);
+    const knownTranslations = memory && !bypassCache
+      ? await memory.lookup(blocksToTranslate.map((b) => b.hash), targetLanguage)
+      : new Map<string, string>();
 
-      if (cancelledDuringStream) {
-        break;
-      }
-    }
+    const {
+      translation: fullTranslation,
+      blockTranslations: allBlockTranslations,
+      messages: allMessages,
+      cancelled: cancelledDuringStream,
+      lastTranslatedBlockIndex,
+      warnings,
+    } = await translateBlockChunks(internalChunks, knownTranslations, targetLanguage, model, token, onChunk, glossary);
 
     // If cancelled, save partial session state
     if (cancelledDuringStream) {
@@ -586,19 +664,24 @@ ${contentToTranslate}`;
       };
     }
 
+    // Same as the streamed translation, with heading anchors fixed
+    const translation = mergeTranslation(parsedDocument, allBlockTranslations, lastBlockIndex);
+
     // Cache block translations
     if (enableCache) {
       translationCache.setBlocks(allBlockTranslations, targetLanguage);
       // Only cache full document if all blocks were translated
       if (!hasMoreBlocks) {
-        translationCache.set(content, fullTranslation);
+        translationCache.set(content, translation);
       }
     }
 
+    await memory?.record(blocksToTranslate, allBlockTranslations, targetLanguage);
+
     // Initialize session with block data
     translationSession.initSession(
       content,
-      fullTranslation,
+      translation,
       allMessages,
       model,
       parsedDocument,
@@ -608,11 +691,13 @@ ${contentToTranslate}`;
 
     return {
       success: true,
-      translation: fullTranslation,
+      translation,
       blockTranslations: allBlockTranslations,
       parsedDocument,
       translatedUpToBlockIndex: lastBlockIndex,
       hasMoreBlocks,
+      glossaryViolations: checkBlockGlossary(blocksToTranslate, allBlockTranslations, glossary),
+      warnings,
     };
   } catch (error) {
     translationSession.clearSession();
@@ -621,101 +706,329 @@ ${contentToTranslate}`;
 }
 
 /**
- * Select blocks to translate within chunk size limit
+ * Translate a whole document without streaming or touching the preview session (batch translation)
+ * Blocks found in the block cache or the workspace translation memory are reused.
  */
-function selectBlocksForChunk(
-  blocks: MarkdownBlock[],
-  startIndex: number,
-  chunkSize: number
-): { blocksToTranslate: MarkdownBlock[]; lastBlockIndex: number } {
-  const blocksToTranslate: MarkdownBlock[] = [];
-  let totalSize = 0;
-  let lastBlockIndex = startIndex - 1;
-
-  for (let i = startIndex; i < blocks.length; i++) {
-    const block = blocks[i];
-    const blockSize = block.content.length;
-
-    // Always include at least one block
-    if (blocksToTranslate.length === 0 || totalSize + blockSize <= chunkSize) {
-      blocksToTranslate.push(block);
-      totalSize += blockSize + 1; // +1 for newline
-      lastBlockIndex = i;
-    } else {
-      break;
+export async function translateDocument(
+  content: string,
+  targetLanguage: string,
+  token: vscode.CancellationToken,
+  options?: BlockTranslationOptions
+): Promise<TranslationResult> {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  const enableCache = config.get<boolean>('enableCache', true);
+  const bypassCache = options?.bypassCache ?? false;
+
+  const parsedDocument = parseMarkdownToBlocks(content, getParseOptions(options));
+
+  try {
+    const effectiveModelId = options?.modelId || config.get<string>('modelId', '');
+    const model = await getModel(effectiveModelId);
+
+    if (!model) {
+      return {
+        success: false,
+        error: 'No language models available. Please ensure GitHub Copilot is installed and signed in.',
+      };
     }
+
+    const glossary = await loadGlossary(targetLanguage, options?.documentUri);
+    const memory = getTranslationMemory(options?.documentUri);
+
+    // Reuse cached and remembered block translations (unless bypassing)
+    const knownTranslations = new Map<string, string>();
+    if (!bypassCache) {
+      const hashes = parsedDocument.blocks.map((b) => b.hash);
+      const remembered = memory ? await memory.lookup(hashes, targetLanguage) : new Map<string, string>();
+      const cached = enableCache ? translationCache.getBlocks(hashes, targetLanguage) : new Map<string, string>();
+      for (const [hash, translation] of [...remembered, ...cached]) {
+        knownTranslations.set(hash, translation);
+      }
+    }
+
+    const { blockTranslations, cancelled, warnings } = await translateBlockChunks(
+      splitIntoInternalChunks(parsedDocument.blocks),
+      knownTranslations,
+      targetLanguage,
+      model,
+      token,
+      () => {},
+      glossary
+    );
+
+    if (cancelled) {
+      return { success: false, error: 'Translation cancelled' };
+    }
+
+    const translation = mergeTranslation(parsedDocument, blockTranslations);
+
+    if (enableCache) {
+      translationCache.setBlocks(blockTranslations, targetLanguage);
+      translationCache.set(content, translation);
+    }
+
+    await memory?.record(parsedDocument.blocks, blockTranslations, targetLanguage);
+
+    return {
+      success: true,
+      translation,
+      blockTranslations,
+      parsedDocument,
+      translatedUpToBlockIndex: parsedDocument.blocks.length - 1,
+      hasMoreBlocks: false,
+      glossaryViolations: checkBlockGlossary(parsedDocument.blocks, blockTranslations, glossary),
+      warnings,
+    };
+  } catch (error) {
+    return handleTranslationError(error);
   }
+}
 
-  return { blocksToTranslate, lastBlockIndex };
+/**
+ * Get the parse options for the document being translated (MDX for .mdx files)
+ */
+function getParseOptions(options?: BlockTranslationOptions): ParseOptions {
+  return { mdx: options?.documentUri ? isMdxPath(options.documentUri.path) : false };
 }
 
 /**
- * Split blocks into internal chunks to avoid "Response too long" errors.
- * Each internal chunk will be at most INTERNAL_MAX_CHUNK_SIZE characters.
+ * Parse the translation of source blocks
+ * Translations are parsed as MDX when the source blocks include MDX blocks, so they align with them.
  */
-function splitIntoInternalChunks(blocks: MarkdownBlock[]): MarkdownBlock[][] {
-  const chunks: MarkdownBlock[][] = [];
-  let currentChunk: MarkdownBlock[] = [];
-  let currentSize = 0;
+function parseTranslation(translation: string, sourceBlocks: MarkdownBlock[]): ParsedDocument {
+  const mdx = sourceBlocks.some((block) => ['mdx_esm', 'mdx_expression', 'jsx_block'].includes(block.type));
+  return parseMarkdownToBlocks(translation, { mdx });
+}
+
+/**
+ * A run of consecutive blocks that is either fully known or sent to the model in one request
+ */
+interface BlockRun {
+  blocks: MarkdownBlock[];
+  /** Whether every block in the run already has a known translation */
+  known: boolean;
+}
+
+/**
+ * Group blocks into runs of known and unknown translations
+ * Blank lines never start a model request on their own, so they join the current run.
+ * Unknown tables and front matter get a run of their own because only their parts are sent to the model.
+ */
+function groupBlocksByKnownTranslation(
+  blocks: MarkdownBlock[],
+  knownTranslations: Map<string, string>
+): BlockRun[] {
+  const runs: BlockRun[] = [];
 
   for (const block of blocks) {
-    const blockSize = block.content.length;
+    const currentRun = runs[runs.length - 1];
+    if (block.type === 'blank_lines' && currentRun) {
+      currentRun.blocks.push(block);
+      continue;
+    }
 
-    // Always include at least one block in a chunk
-    if (currentChunk.length === 0 || currentSize + blockSize <= INTERNAL_MAX_CHUNK_SIZE) {
-      currentChunk.push(block);
-      currentSize += blockSize + 1; // +1 for newline
+    // A code block cached before comment translation was enabled translates to its own source
+    const untranslatedCode =
+      block.type === 'code_block' && knownTranslations.get(block.hash) === block.content && isTranslatedByParts(block);
+    const known = block.type === 'blank_lines' || (knownTranslations.has(block.hash) && !untranslatedCode);
+    const startsPartsRun = (b: MarkdownBlock, isKnown: boolean) => !isKnown && isTranslatedByParts(b);
+    if (
+      currentRun &&
+      currentRun.known === known &&
+      !startsPartsRun(currentRun.blocks[0], currentRun.known) &&
+      !startsPartsRun(block, known)
+    ) {
+      currentRun.blocks.push(block);
     } else {
-      // Start a new chunk
-      chunks.push(currentChunk);
-      currentChunk = [block];
-      currentSize = blockSize + 1;
+      runs.push({ blocks: [block], known });
     }
   }
 
-  // Don't forget the last chunk
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk);
-  }
+  return runs;
+}
 
-  return chunks;
+interface BlockChunksTranslation {
+  /** Translation of all processed blocks */
+  translation: string;
+  /** Block translations map (hash -> translation) */
+  blockTranslations: Map<string, string>;
+  /** Request/response messages for the session */
+  messages: ChatMessage[];
+  /** Index of the last block with a translation (-1 if none) */
+  lastTranslatedBlockIndex: number;
+  /** Whether translation stopped because of cancellation */
+  cancelled: boolean;
+  /** Problems noticed while translating */
+  warnings: string[];
 }
 
 /**
- * Build block translation map for a specific range of source blocks
+ * Translate internal chunks of blocks with streaming output
+ * Blocks with known translations are emitted as-is; the rest is sent to the model run by run.
  */
-function buildBlockTranslationMapForRange(
-  sourceBlocks: MarkdownBlock[],
-  translation: ParsedDocument
-): Map<string, string> {
-  const map = new Map<string, string>();
-
-  if (sourceBlocks.length === translation.blocks.length) {
-    // Position-based mapping
-    for (let i = 0; i < sourceBlocks.length; i++) {
-      map.set(sourceBlocks[i].hash, translation.blocks[i].content);
-    }
-  } else {
-    // Type-based matching
-    let translationIndex = 0;
-    for (const sourceBlock of sourceBlocks) {
-      while (
-        translationIndex < translation.blocks.length &&
-        translation.blocks[translationIndex].type !== sourceBlock.type
-      ) {
-        translationIndex++;
+async function translateBlockChunks(
+  internalChunks: MarkdownBlock[][],
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  onChunk: (chunk: string) => void,
+  glossary: GlossaryTerm[]
+): Promise<BlockChunksTranslation> {
+  const result: BlockChunksTranslation = {
+    translation: '',
+    blockTranslations: new Map<string, string>(),
+    messages: [],
+    lastTranslatedBlockIndex: -1,
+    cancelled: false,
+    warnings: [],
+  };
+
+  let hasOutput = false;
+
+  for (const internalBlocks of internalChunks) {
+    for (const run of groupBlocksByKnownTranslation(internalBlocks, knownTranslations)) {
+      if (token.isCancellationRequested) {
+        result.cancelled = true;
+        return result;
       }
 
-      if (translationIndex < translation.blocks.length) {
-        map.set(sourceBlock.hash, translation.blocks[translationIndex].content);
-        translationIndex++;
-      } else {
-        map.set(sourceBlock.hash, sourceBlock.content);
+      // Add newline separator between runs
+      if (hasOutput) {
+        result.translation += '\n';
+        onChunk('\n');
+      }
+      hasOutput = true;
+
+      if (run.known) {
+        const translations = run.blocks.map((b) => knownTranslations.get(b.hash) ?? b.content);
+        run.blocks.forEach((b, i) => result.blockTranslations.set(b.hash, translations[i]));
+        result.translation += translations.join('\n');
+        onChunk(translations.join('\n'));
+        result.lastTranslatedBlockIndex = run.blocks[run.blocks.length - 1].index;
+        continue;
+      }
+
+      if (isTranslatedByParts(run.blocks[0])) {
+        const [block, ...blankLines] = run.blocks;
+        const partsResult = await translateBlockParts(
+          block,
+          knownTranslations,
+          targetLanguage,
+          model,
+          token,
+          glossary,
+          result.warnings
+        );
+        if (partsResult === null) {
+          result.cancelled = true;
+          return result;
+        }
+        result.blockTranslations.set(block.hash, partsResult.translation);
+        for (const [hash, translation] of partsResult.partTranslations) {
+          result.blockTranslations.set(hash, translation);
+        }
+        const runTranslation = [partsResult.translation, ...blankLines.map((b) => b.content)].join('\n');
+        result.translation += runTranslation;
+        onChunk(runTranslation);
+        result.lastTranslatedBlockIndex = run.blocks[run.blocks.length - 1].index;
+        continue;
+      }
+
+      const contentToTranslate = run.blocks.map((b) => b.content).join('\n');
+      const buildPrompt = (text: string) => `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
+Preserve all Markdown formatting, code blocks, links, and structure exactly as they are.
+Only translate the text content, not code or URLs.
+${PLACEHOLDER_INSTRUCTION}
+Do not add any explanations or notes - output only the translated Markdown.
+
+${formatGlossaryForPrompt(glossary)}[Content to translate]
+
+${text}`;
+
+      const { translation: runTranslation, userMessage, cancelled, unprotected } =
+        await requestProtectedTranslation(contentToTranslate, buildPrompt, model, token, onChunk);
+      if (unprotected) {
+        result.warnings.push(describeUnprotectedTranslation(run.blocks));
       }
+
+      // Track messages for session
+      const assistantMessage: ChatMessage = { role: 'assistant', content: runTranslation };
+      result.messages.push(userMessage, assistantMessage);
+
+      const parsedRunTranslation = parseTranslation(runTranslation, run.blocks);
+
+      if (cancelled) {
+        // Keep whatever was translated before cancellation
+        result.translation += runTranslation;
+        result.cancelled = true;
+        for (const [hash, translation] of buildBlockTranslationMapForRange(run.blocks, parsedRunTranslation)) {
+          result.blockTranslations.set(hash, translation);
+        }
+        const translatedBlockCount = Math.min(parsedRunTranslation.blocks.length, run.blocks.length);
+        if (translatedBlockCount > 0) {
+          result.lastTranslatedBlockIndex = run.blocks[translatedBlockCount - 1].index;
+        }
+        return result;
+      }
+
+      // Validate the structure of each block and re-request the ones that don't match
+      const alignment = alignBlockTranslations(run.blocks, parsedRunTranslation);
+      for (const failure of alignment.failures) {
+        const retried = await retranslateInvalidBlock(failure.block, buildPrompt, model, token, result.warnings);
+        if (retried === null) {
+          result.cancelled = true;
+          return result;
+        }
+        alignment.translations.set(failure.block.hash, retried);
+      }
+
+      for (const [hash, translation] of alignment.translations) {
+        result.blockTranslations.set(hash, translation);
+      }
+      for (const [hash, translation] of alignSegmentTranslations(run.blocks, alignment.translations)) {
+        result.blockTranslations.set(hash, translation);
+      }
+      result.translation += run.blocks.map((b) => alignment.translations.get(b.hash) ?? b.content).join('\n');
+      result.lastTranslatedBlockIndex = run.blocks[run.blocks.length - 1].index;
     }
   }
 
-  return map;
+  return result;
+}
+
+/**
+ * Re-request a block whose translation failed structural validation
+ * The retry is not streamed. If it still fails, its translation is kept and a warning is added.
+ * @returns The block translation, or null if cancelled
+ */
+async function retranslateInvalidBlock(
+  block: MarkdownBlock,
+  buildPrompt: (content: string) => string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  warnings: string[]
+): Promise<string | null> {
+  const { translation, cancelled, unprotected } = await requestProtectedTranslation(
+    block.content,
+    buildPrompt,
+    model,
+    token
+  );
+  if (cancelled) {
+    return null;
+  }
+  if (unprotected) {
+    warnings.push(describeUnprotectedTranslation([block]));
+  }
+
+  const alignment = alignBlockTranslations([block], parseTranslation(translation, [block]));
+  for (const failure of alignment.failures) {
+    warnings.push(describeValidationFailure(failure));
+  }
+  return alignment.failures.length === 0
+    ? alignment.translations.get(block.hash) ?? translation
+    : translation.replace(/\n+$/, '');
 }
 
 /**
@@ -751,6 +1064,7 @@ export async function translateNextBlockChunk(
 
   const config = vscode.workspace.getConfiguration('markdownTranslate');
   const enableCache = config.get<boolean>('enableCache', true);
+  const bypassCache = options?.bypassCache ?? false;
 
   const { parsedDocument, blockTranslations, translatedUpToBlockIndex } = session;
   const startIndex = (translatedUpToBlockIndex ?? -1) + 1;
@@ -758,7 +1072,7 @@ export async function translateNextBlockChunk(
   // Check if there are more blocks to translate
   if (startIndex >= parsedDocument.blocks.length) {
     // All blocks already translated
-    const fullTranslation = mergeTranslatedBlocks(parsedDocument, blockTranslations || new Map());
+    const fullTranslation = mergeTranslation(parsedDocument, blockTranslations || new Map());
     onChunk(fullTranslation);
     return {
       success: true,
@@ -788,75 +1102,35 @@ export async function translateNextBlockChunk(
     // Split blocks into internal chunks to avoid "Response too long" errors
     const internalChunks = splitIntoInternalChunks(blocksToTranslate);
 
-    let newTranslation = '';
-    const newBlockTranslations = new Map<string, string>();
-    const allMessages: vscode.LanguageModelChatMessage[] = [];
+    const glossary = await loadGlossary(targetLanguage, options?.documentUri);
+
+    // Reuse translations from the workspace translation memory (unless bypassing)
+    const memory = getTranslationMemory(options?.documentUri);
+    const knownTranslations = memory && !bypassCache
+      ? await memory.lookup(blocksToTranslate.map((b) => b.hash), targetLanguage)
+      : new Map<string, string>();
 
     // Add initial newline if there was existing content
     if (hasExistingTranslation) {
       onChunk('\n');
     }
 
-    // Process each internal chunk
-    for (let chunkIndex = 0; chunkIndex < internalChunks.length; chunkIndex++) {
-      if (token.isCancellationRequested) {
-        return { success: false, error: 'Translation cancelled' };
-      }
-
-      const internalBlocks = internalChunks[chunkIndex];
-      const contentToTranslate = internalBlocks.map((b) => b.content).join('\n');
+    const {
+      blockTranslations: newBlockTranslations,
+      messages: allMessages,
+      cancelled,
+      warnings,
+    } = await translateBlockChunks(internalChunks, knownTranslations, targetLanguage, model, token, onChunk, glossary);
 
-      // Add newline separator between internal chunks
-      if (chunkIndex > 0 && newTranslation.length > 0) {
-        newTranslation += '\n';
-        onChunk('\n');
-      }
-
-      // Translate
-      const prompt = `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
-Preserve all Markdown formatting, code blocks, links, and structure exactly as they are.
-Only translate the text content, not code or URLs.
-Do not add any explanations or notes - output only the translated Markdown.
-
-[Content to translate]
-
-${contentToTranslate}`;
-
-      const userMessage = vscode.LanguageModelChatMessage.User(prompt);
-      const response = await model.sendRequest([userMessage], {}, token);
-
-      let chunkTranslation = '';
-      for await (const fragment of response.text) {
-        if (token.isCancellationRequested) {
-          return { success: false, error: 'Translation cancelled' };
-        }
-        chunkTranslation += fragment;
-        newTranslation += fragment;
-        onChunk(fragment);
-      }
-
-      // Parse and map translations for this internal chunk
-      const parsedChunkTranslation = parseMarkdownToBlocks(chunkTranslation);
-      const chunkBlockTranslations = buildBlockTranslationMapForRange(
-        internalBlocks,
-        parsedChunkTranslation
-      );
-
-      // Merge into new block translations
-      for (const [hash, translation] of chunkBlockTranslations) {
-        newBlockTranslations.set(hash, translation);
-      }
-
-      // Track messages for session
-      const assistantMessage = vscode.LanguageModelChatMessage.Assistant(chunkTranslation);
-      allMessages.push(userMessage, assistantMessage);
+    if (cancelled) {
+      return { success: false, error: 'Translation cancelled' };
     }
 
     // Merge with existing translations
     const allBlockTranslations = new Map([...existingTranslations, ...newBlockTranslations]);
 
     // Build full translation (only up to lastBlockIndex)
-    const fullTranslation = mergeTranslatedBlocks(parsedDocument, allBlockTranslations, lastBlockIndex);
+    const fullTranslation = mergeTranslation(parsedDocument, allBlockTranslations, lastBlockIndex);
 
     // Cache
     if (enableCache) {
@@ -866,6 +1140,8 @@ ${contentToTranslate}`;
       }
     }
 
+    await memory?.record(blocksToTranslate, newBlockTranslations, targetLanguage);
+
     // Update session
     translationSession.updateSession(
       session.originalContent,
@@ -883,6 +1159,8 @@ ${contentToTranslate}`;
       parsedDocument,
       translatedUpToBlockIndex: lastBlockIndex,
       hasMoreBlocks,
+      glossaryViolations: checkBlockGlossary(blocksToTranslate, newBlockTranslations, glossary),
+      warnings,
     };
   } catch (error) {
     return handleTranslationError(error);
@@ -920,12 +1198,13 @@ export async function translateAllRemainingBlocks(
 
   const config = vscode.workspace.getConfiguration('markdownTranslate');
   const enableCache = config.get<boolean>('enableCache', true);
+  const bypassCache = options?.bypassCache ?? false;
 
   const { parsedDocument, blockTranslations, translatedUpToBlockIndex } = session;
   const startIndex = (translatedUpToBlockIndex ?? -1) + 1;
 
   if (startIndex >= parsedDocument.blocks.length) {
-    const fullTranslation = mergeTranslatedBlocks(parsedDocument, blockTranslations || new Map());
+    const fullTranslation = mergeTranslation(parsedDocument, blockTranslations || new Map());
     onChunk(fullTranslation);
     return {
       success: true,
@@ -958,72 +1237,32 @@ export async function translateAllRemainingBlocks(
     const remainingBlocks = parsedDocument.blocks.slice(startIndex);
     const internalChunks = splitIntoInternalChunks(remainingBlocks);
 
-    let newTranslation = '';
-    const newBlockTranslations = new Map<string, string>();
-    const allMessages: vscode.LanguageModelChatMessage[] = [];
+    const glossary = await loadGlossary(targetLanguage, options?.documentUri);
+
+    // Reuse translations from the workspace translation memory (unless bypassing)
+    const memory = getTranslationMemory(options?.documentUri);
+    const knownTranslations = memory && !bypassCache
+      ? await memory.lookup(remainingBlocks.map((b) => b.hash), targetLanguage)
+      : new Map<string, string>();
 
     // Add initial newline if there was existing content
     if (existingTranslation.length > 0) {
       onChunk('\n');
     }
 
-    // Process each internal chunk
-    for (let chunkIndex = 0; chunkIndex < internalChunks.length; chunkIndex++) {
-      if (token.isCancellationRequested) {
-        return { success: false, error: 'Translation cancelled' };
-      }
-
-      const internalBlocks = internalChunks[chunkIndex];
-      const contentToTranslate = internalBlocks.map((b) => b.content).join('\n');
-
-      // Add newline separator between internal chunks
-      if (chunkIndex > 0 && newTranslation.length > 0) {
-        newTranslation += '\n';
-        onChunk('\n');
-      }
-
-      // Translate
-      const prompt = `You are a professional translator. Translate the following Markdown content to ${targetLanguage}.
-Preserve all Markdown formatting, code blocks, links, and structure exactly as they are.
-Only translate the text content, not code or URLs.
-Do not add any explanations or notes - output only the translated Markdown.
-
-[Content to translate]
-
-${contentToTranslate}`;
-
-      const userMessage = vscode.LanguageModelChatMessage.User(prompt);
-      const response = await model.sendRequest([userMessage], {}, token);
-
-      let chunkTranslation = '';
-      for await (const fragment of response.text) {
-        if (token.isCancellationRequested) {
-          return { success: false, error: 'Translation cancelled' };
-        }
-        chunkTranslation += fragment;
-        newTranslation += fragment;
-        onChunk(fragment);
-      }
-
-      // Parse and map translations for this internal chunk
-      const parsedChunkTranslation = parseMarkdownToBlocks(chunkTranslation);
-      const chunkBlockTranslations = buildBlockTranslationMapForRange(
-        internalBlocks,
-        parsedChunkTranslation
-      );
-
-      // Merge into new block translations
-      for (const [hash, translation] of chunkBlockTranslations) {
-        newBlockTranslations.set(hash, translation);
-      }
+    const {
+      blockTranslations: newBlockTranslations,
+      messages: allMessages,
+      cancelled,
+      warnings,
+    } = await translateBlockChunks(internalChunks, knownTranslations, targetLanguage, model, token, onChunk, glossary);
 
-      // Track messages for session
-      const assistantMessage = vscode.LanguageModelChatMessage.Assistant(chunkTranslation);
-      allMessages.push(userMessage, assistantMessage);
+    if (cancelled) {
+      return { success: false, error: 'Translation cancelled' };
     }
 
     const allBlockTranslations = new Map([...existingTranslations, ...newBlockTranslations]);
-    const fullTranslation = mergeTranslatedBlocks(parsedDocument, allBlockTranslations);
+    const fullTranslation = mergeTranslation(parsedDocument, allBlockTranslations);
 
     // Cache
     if (enableCache) {
@@ -1031,6 +1270,8 @@ ${contentToTranslate}`;
       translationCache.set(session.originalContent, fullTranslation);
     }
 
+    await memory?.record(remainingBlocks, newBlockTranslations, targetLanguage);
+
     // Update session
     translationSession.updateSession(
       session.originalContent,
@@ -1048,54 +1289,14 @@ ${contentToTranslate}`;
       parsedDocument,
       translatedUpToBlockIndex: parsedDocument.blocks.length - 1,
       hasMoreBlocks: false,
+      glossaryViolations: checkBlockGlossary(remainingBlocks, newBlockTranslations, glossary),
+      warnings,
     };
   } catch (error) {
     return handleTranslationError(error);
   }
 }
 
-/**
- * Build a mapping from source block hashes to their translations
- * Uses position-based matching when block counts match
- */
-function buildBlockTranslationMap(
-  source: ParsedDocument,
-  translation: ParsedDocument
-): Map<string, string> {
-  const map = new Map<string, string>();
-
-  // If block counts match, use position-based mapping
-  if (source.blocks.length === translation.blocks.length) {
-    for (let i = 0; i < source.blocks.length; i++) {
-      const sourceBlock = source.blocks[i];
-      const translatedBlock = translation.blocks[i];
-      map.set(sourceBlock.hash, translatedBlock.content);
-    }
-  } else {
-    // Block counts don't match - try to match by type and relative position
-    let translationIndex = 0;
-    for (const sourceBlock of source.blocks) {
-      // Find next matching block type in translation
-      while (
-        translationIndex < translation.blocks.length &&
-        translation.blocks[translationIndex].type !== sourceBlock.type
-      ) {
-        translationIndex++;
-      }
-
-      if (translationIndex < translation.blocks.length) {
-        map.set(sourceBlock.hash, translation.blocks[translationIndex].content);
-        translationIndex++;
-      } else {
-        // No matching block found - use original content
-        map.set(sourceBlock.hash, sourceBlock.content);
-      }
-    }
-  }
-
-  return map;
-}
-
 /**
  * Translate changed blocks incrementally using block-based approach
  */
@@ -1118,6 +1319,7 @@ export async function translateBlocksIncremental(
 
   const config = vscode.workspace.getConfiguration('markdownTranslate');
   const enableCache = config.get<boolean>('enableCache', true);
+  const bypassCache = options?.bypassCache ?? false;
 
   // Get the previous translated block index
   const oldTranslatedUpToBlockIndex = session.translatedUpToBlockIndex;
@@ -1143,7 +1345,7 @@ export async function translateBlocksIncremental(
 
   try {
     // Parse new document
-    const newDocument = parseMarkdownToBlocks(newContent);
+    const newDocument = parseMarkdownToBlocks(newContent, { mdx: oldDocument?.mdx });
 
     // Calculate new translatedUpToBlockIndex based on block mapping
     let newTranslatedUpToBlockIndex: number | undefined;
@@ -1194,14 +1396,24 @@ export async function translateBlocksIncremental(
     // Get existing block translations from session
     const existingTranslations = session.blockTranslations || new Map<string, string>();
 
-    // Also check cache for any blocks that might be cached
-    const blockHashes = newDocument.blocks.map((b) => b.hash);
-    const cachedTranslations = enableCache
+    // Also check cache for any blocks that might be cached, and for the sentences, table cells
+    // and front matter values of changed blocks so unchanged ones don't need to be retranslated
+    const segmentHashes = blockDiff.changes.flatMap((change) =>
+      change.newBlock ? getBlockPartHashes(change.newBlock) : []
+    );
+    const blockHashes = [...newDocument.blocks.map((b) => b.hash), ...segmentHashes];
+    const cachedTranslations = enableCache && !bypassCache
       ? translationCache.getBlocks(blockHashes, targetLanguage)
       : new Map<string, string>();
 
-    // Merge existing and cached translations
-    const availableTranslations = new Map([...existingTranslations, ...cachedTranslations]);
+    // Also check the workspace translation memory (unless bypassing)
+    const memory = getTranslationMemory(options?.documentUri);
+    const memoryTranslations = memory && !bypassCache
+      ? await memory.lookup(blockHashes, targetLanguage)
+      : new Map<string, string>();
+
+    // Merge remembered, existing and cached translations (the session's translations win over remembered ones)
+    const availableTranslations = new Map([...memoryTranslations, ...existingTranslations, ...cachedTranslations]);
 
     // Identify blocks that need translation (added or modified) within translated range only
     const blocksToTranslate: MarkdownBlock[] = [];
@@ -1223,7 +1435,7 @@ export async function translateBlocksIncremental(
 
     // If no blocks need translation, merge and return
     if (blocksToTranslate.length === 0) {
-      const translation = mergeTranslatedBlocks(newDocument, availableTranslations, newTranslatedUpToBlockIndex);
+      const translation = mergeTranslation(newDocument, availableTranslations, newTranslatedUpToBlockIndex);
       onChunk(translation);
 
       // Update session
@@ -1250,7 +1462,10 @@ export async function translateBlocksIncremental(
 
     onProgress?.(`Translating ${blocksToTranslate.length} changed block${blocksToTranslate.length > 1 ? 's' : ''}...`);
 
+    const glossary = await loadGlossary(targetLanguage, options?.documentUri);
+
     // Translate blocks that need translation
+    const warnings: string[] = [];
     const newBlockTranslations = await translateBlocksStreaming(
       newDocument,
       blocksToTranslate,
@@ -1259,6 +1474,8 @@ export async function translateBlocksIncremental(
       session.model,
       token,
       onChunk,
+      glossary,
+      warnings,
       newTranslatedUpToBlockIndex
     );
 
@@ -1268,7 +1485,7 @@ export async function translateBlocksIncremental(
 
     // Merge all translations
     const allBlockTranslations = new Map([...availableTranslations, ...newBlockTranslations]);
-    const translation = mergeTranslatedBlocks(newDocument, allBlockTranslations, newTranslatedUpToBlockIndex);
+    const translation = mergeTranslation(newDocument, allBlockTranslations, newTranslatedUpToBlockIndex);
 
     // Cache new block translations
     if (enableCache) {
@@ -1279,9 +1496,11 @@ export async function translateBlocksIncremental(
       }
     }
 
+    await memory?.record(blocksToTranslate, newBlockTranslations, targetLanguage);
+
     // Update session
-    const userMessage = vscode.LanguageModelChatMessage.User(`Updated translation: ${blockDiff.summary}`);
-    const assistantMessage = vscode.LanguageModelChatMessage.Assistant(translation);
+    const userMessage: ChatMessage = { role: 'user', content: `Updated translation: ${blockDiff.summary}` };
+    const assistantMessage: ChatMessage = { role: 'assistant', content: translation };
     translationSession.updateSession(
       newContent,
       translation,
@@ -1299,12 +1518,58 @@ export async function translateBlocksIncremental(
       parsedDocument: newDocument,
       translatedUpToBlockIndex: newTranslatedUpToBlockIndex,
       hasMoreBlocks,
+      glossaryViolations: checkBlockGlossary(blocksToTranslate, newBlockTranslations, glossary),
+      warnings,
     };
   } catch (error) {
     return handleTranslationError(error);
   }
 }
 
+/**
+ * Merge block translations into the translated document
+ * #fragment links or heading anchors are fixed for translated headings (the `headingAnchors` setting).
+ */
+function mergeTranslation(
+  document: ParsedDocument,
+  translations: Map<string, string>,
+  upToBlockIndex?: number
+): string {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  const mode = config.get<HeadingAnchorMode>('headingAnchors', 'rewrite');
+  const transform = getHeadingAnchorTransform(document, translations, mode);
+  return mergeTranslatedBlocks(document, translations, upToBlockIndex, transform);
+}
+
+/**
+ * Get the hashes of the separately translated parts of a block (sentences, list items, table cells,
+ * front matter values, HTML/JSX text, container blocks and code comments)
+ */
+function getBlockPartHashes(block: MarkdownBlock): string[] {
+  let segments: BlockSegment[] | undefined;
+  if (block.type === 'table') {
+    const table = parseTable(block.content);
+    segments = table && getTableCellSegments(table);
+  } else if (block.type === 'front_matter') {
+    const frontMatter = parseFrontMatter(block.content);
+    segments = frontMatter && getFrontMatterSegments(frontMatter.fields);
+  } else if (block.type === 'code_block') {
+    segments = segmentCodeForTranslation(block)?.segments;
+  } else if (block.type === 'container_directive' || block.type === 'alert') {
+    const container = parseContainer(block);
+    return container ? getContainerBlocks(container).blocks.map((b) => b.hash) : [];
+  } else if (block.type === 'html_block' || block.type === 'jsx_block') {
+    const htmlOptions = { jsx: block.type === 'jsx_block' };
+    segments = [
+      ...segmentHtml(block.content, htmlOptions).segments,
+      ...getHtmlAttributeSegments(block.content, getHtmlAttributeNames(), htmlOptions),
+    ];
+  } else {
+    segments = segmentBlock(block)?.segments;
+  }
+  return segments?.map((segment) => segment.hash) ?? [];
+}
+
 /**
  * Translate a list of blocks with streaming output
  * @param upToBlockIndex - Optional: only output blocks up to this index
@@ -1314,9 +1579,11 @@ async function translateBlocksStreaming(
   blocksToTranslate: MarkdownBlock[],
   existingTranslations: Map<string, string>,
   targetLanguage: string,
-  model: vscode.LanguageModelChat,
+  model: TranslationModel,
   token: vscode.CancellationToken,
   onChunk: (chunk: string) => void,
+  glossary: GlossaryTerm[],
+  warnings: string[],
   upToBlockIndex?: number
 ): Promise<Map<string, string>> {
   const newTranslations = new Map<string, string>();
@@ -1353,6 +1620,61 @@ async function translateBlocksStreaming(
       }
     }
 
+    const onBlockChunk = (chunk: string) => {
+      if (currentTranslation.length > 0 && !currentTranslation.endsWith('\n')) {
+        currentTranslation += '\n';
+        onChunk('\n');
+      }
+      currentTranslation += chunk;
+      onChunk(chunk);
+    };
+
+    // Tables and front matter: only the parts without a known translation are sent to the model
+    if (isTranslatedByParts(block)) {
+      const partsResult = await translateBlockParts(
+        block,
+        existingTranslations,
+        targetLanguage,
+        model,
+        token,
+        glossary,
+        warnings
+      );
+      if (partsResult === null) {
+        break;
+      }
+      onBlockChunk(partsResult.translation);
+      newTranslations.set(block.hash, partsResult.translation);
+      for (const [hash, translation] of partsResult.partTranslations) {
+        newTranslations.set(hash, translation);
+      }
+      lastOutputIndex = block.index;
+      continue;
+    }
+
+    // Retranslate only the changed sentences when most of the block is unchanged
+    const segmentResult = await translateChangedSegments(
+      block,
+      existingTranslations,
+      targetLanguage,
+      model,
+      token,
+      glossary,
+      warnings
+    );
+    if (segmentResult === null) {
+      break;
+    }
+    if (segmentResult) {
+      onBlockChunk(segmentResult.translation);
+      newTranslations.set(block.hash, segmentResult.translation);
+      for (const [hash, translation] of segmentResult.segmentTranslations) {
+        newTranslations.set(hash, translation);
+      }
+      lastOutputIndex = block.index;
+      continue;
+    }
+
     // Build context for translation
     const context = buildBlockContext(document, block, existingTranslations, newTranslations);
 
@@ -1363,18 +1685,16 @@ async function translateBlocksStreaming(
       targetLanguage,
       model,
       token,
-      (chunk) => {
-        if (currentTranslation.length > 0 && !currentTranslation.endsWith('\n')) {
-          currentTranslation += '\n';
-          onChunk('\n');
-        }
-        currentTranslation += chunk;
-        onChunk(chunk);
-      }
+      onBlockChunk,
+      glossary,
+      warnings
     );
 
     if (translation !== undefined && translation !== null) {
       newTranslations.set(block.hash, translation);
+      for (const [hash, segmentTranslation] of alignSegmentTranslations([block], newTranslations)) {
+        newTranslations.set(hash, segmentTranslation);
+      }
     }
 
     lastOutputIndex = block.index;
@@ -1397,6 +1717,401 @@ async function translateBlocksStreaming(
   return newTranslations;
 }
 
+/**
+ * Translate only the sentences of a paragraph (or the items of a list) that have no known translation
+ * Each missing segment is translated on its own with the whole block as context, and list
+ * items are spliced back between the markers of the source list.
+ * @returns The block translation with the new sentence translations, undefined if the block
+ * should be translated as a whole (most sentences changed, or the result is invalid), or null if cancelled
+ */
+async function translateChangedSegments(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; segmentTranslations: Map<string, string> } | null | undefined> {
+  const segmented = segmentBlock(block);
+  if (!segmented) {
+    return undefined;
+  }
+  const missing = segmented.segments.filter((segment) => !knownTranslations.has(segment.hash));
+  if (missing.length * 2 > segmented.segments.length) {
+    return undefined;
+  }
+
+  const blockTranslations = new Map<string, string>();
+  for (const segment of segmented.segments) {
+    const known = knownTranslations.get(segment.hash);
+    if (known !== undefined) {
+      blockTranslations.set(segment.hash, known);
+    }
+  }
+
+  const unit = block.type === 'list' ? 'list item' : 'sentence';
+  const segmentTranslations = new Map<string, string>();
+  for (const segment of missing) {
+    if (segmentTranslations.has(segment.hash)) {
+      continue;
+    }
+    const currentTranslation = joinSegments(segmented, blockTranslations);
+    const buildPrompt = createSegmentPrompt(unit, targetLanguage, glossary, block.content, currentTranslation);
+
+    const { translation, cancelled, unprotected } = await requestProtectedTranslation(
+      segment.content,
+      buildPrompt,
+      model,
+      token
+    );
+    if (cancelled) {
+      return null;
+    }
+    if (unprotected) {
+      warnings.push(describeUnprotectedTranslation([block]));
+    }
+    segmentTranslations.set(segment.hash, translation.trim());
+    blockTranslations.set(segment.hash, translation.trim());
+  }
+
+  const translation = joinSegments(segmented, blockTranslations);
+  const alignment = alignBlockTranslations([block], parseTranslation(translation, [block]));
+  if (alignment.failures.length > 0) {
+    return undefined;
+  }
+  return { translation: alignment.translations.get(block.hash) ?? translation, segmentTranslations };
+}
+
+/**
+ * Check if a block is translated part by part (table cells, front matter values, HTML and JSX text,
+ * container titles and bodies, code comments) instead of being sent to the model as Markdown
+ */
+function isTranslatedByParts(block: MarkdownBlock): boolean {
+  if (block.type === 'code_block') {
+    return (segmentCodeForTranslation(block)?.segments.length ?? 0) > 0;
+  }
+  return ['table', 'front_matter', 'html_block', 'jsx_block', 'container_directive', 'alert'].includes(block.type);
+}
+
+/**
+ * Split a code block into the parts to translate: Mermaid diagram labels (the `translateMermaidLabels`
+ * setting) or comments (the `translateCodeComments` setting)
+ * @returns The segmented block, or undefined if nothing in it is translated
+ */
+function segmentCodeForTranslation(block: MarkdownBlock): SegmentedCode | undefined {
+  const config = vscode.workspace.getConfiguration('markdownTranslate');
+  if (getCodeLanguage(block.content) === 'mermaid') {
+    return config.get<boolean>('translateMermaidLabels', false) ? segmentMermaidBlock(block.content) : undefined;
+  }
+  return config.get<boolean>('translateCodeComments', false) ? segmentCodeBlock(block.content) : undefined;
+}
+
+/**
+ * Get the HTML attributes whose values are translated (the `htmlAttributes` setting)
+ */
+function getHtmlAttributeNames(): string[] {
+  return vscode.workspace
+    .getConfiguration('markdownTranslate')
+    .get<string[]>('htmlAttributes', ['alt', 'title', 'aria-label'])
+    .map((name) => name.toLowerCase());
+}
+
+/**
+ * Translate the parts of a table, front matter, HTML, JSX, container or code block that have no known translation
+ * @returns The block translation and the new part translations (part hash -> translation), or null if cancelled
+ */
+async function translateBlockParts(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; partTranslations: Map<string, string> } | null> {
+  const translators = {
+    table: translateTableBlock,
+    front_matter: translateFrontMatterBlock,
+    html_block: translateHtmlBlock,
+    jsx_block: translateHtmlBlock,
+    container_directive: translateContainerBlock,
+    alert: translateContainerBlock,
+    code_block: translateCodeBlock,
+  };
+  const translate = translators[block.type as keyof typeof translators];
+  return translate(block, knownTranslations, targetLanguage, model, token, glossary, warnings);
+}
+
+/**
+ * Translate segments sent as numbered lines
+ * Segments the model leaves out are retried once and then reported in a warning.
+ * @param unit - What a segment is, for the warning (e.g. "table cell")
+ * @returns Segment translations (segment hash -> translation), or null if cancelled
+ */
+async function requestNumberedTranslations(
+  block: MarkdownBlock,
+  segments: BlockSegment[],
+  unit: string,
+  buildPrompt: (text: string) => string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  warnings: string[]
+): Promise<Map<string, string> | null> {
+  const translations = new Map<string, string>();
+  let pending = segments;
+  for (let attempt = 0; attempt < 2 && pending.length > 0; attempt++) {
+    const { translation, cancelled, unprotected } = await requestProtectedTranslation(
+      formatNumberedSegments(pending.map((segment) => segment.content)),
+      buildPrompt,
+      model,
+      token
+    );
+    if (cancelled) {
+      return null;
+    }
+    if (unprotected) {
+      warnings.push(describeUnprotectedTranslation([block]));
+    }
+    const translated = parseNumberedSegments(
+      translation,
+      pending.map((segment) => segment.content)
+    );
+    pending.forEach((segment, i) => {
+      if (translated[i] !== undefined) {
+        translations.set(segment.hash, translated[i]!);
+      }
+    });
+    pending = pending.filter((segment) => !translations.has(segment.hash));
+  }
+  if (pending.length > 0) {
+    warnings.push(
+      `Block ${block.index + 1}: the model did not return ${pending.length} ${unit}${pending.length > 1 ? 's' : ''}, so they were left untranslated`
+    );
+  }
+  return translations;
+}
+
+/**
+ * Translate the cells of a table block that have no known translation
+ * The table is rebuilt from the source structure, so the column count and alignment row never change.
+ */
+async function translateTableBlock(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; partTranslations: Map<string, string> } | null> {
+  const table = parseTable(block.content);
+  if (!table) {
+    return { translation: block.content, partTranslations: new Map() };
+  }
+
+  const missing = getTableCellSegments(table).filter((cell) => !knownTranslations.has(cell.hash));
+  const buildPrompt = createTableCellPrompt(targetLanguage, glossary, block.content);
+
+  const partTranslations =
+    missing.length > 0
+      ? await requestNumberedTranslations(block, missing, 'table cell', buildPrompt, model, token, warnings)
+      : new Map<string, string>();
+  if (partTranslations === null) {
+    return null;
+  }
+
+  const translatedTable = mapTableCells(table, (cell) => {
+    const hash = generateHash(cell);
+    return partTranslations.get(hash) ?? knownTranslations.get(hash) ?? cell;
+  });
+  return { translation: formatTable(translatedTable), partTranslations };
+}
+
+/**
+ * Translate the values of the front matter keys listed in the `frontMatterKeys` setting
+ * Every other line is kept as it is.
+ */
+async function translateFrontMatterBlock(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; partTranslations: Map<string, string> } | null> {
+  const keys = vscode.workspace
+    .getConfiguration('markdownTranslate')
+    .get<string[]>('frontMatterKeys', ['title', 'description', 'summary']);
+  const frontMatter = parseFrontMatter(block.content);
+  const fields = frontMatter ? getTranslatableFields(frontMatter, keys) : [];
+  if (!frontMatter || fields.length === 0) {
+    return { translation: block.content, partTranslations: new Map() };
+  }
+
+  const missing = getFrontMatterSegments(fields).filter((value) => !knownTranslations.has(value.hash));
+  const buildPrompt = createFrontMatterPrompt(targetLanguage, glossary);
+
+  const partTranslations =
+    missing.length > 0
+      ? await requestNumberedTranslations(block, missing, 'front matter value', buildPrompt, model, token, warnings)
+      : new Map<string, string>();
+  if (partTranslations === null) {
+    return null;
+  }
+
+  const translatedFields = new Set(fields);
+  const translation = serializeFrontMatter(frontMatter, (field) => {
+    if (!translatedFields.has(field)) {
+      return undefined;
+    }
+    const hash = generateHash(field.value);
+    return partTranslations.get(hash) ?? knownTranslations.get(hash);
+  });
+  return { translation, partTranslations };
+}
+
+/**
+ * Translate the text and the values of the `htmlAttributes` attributes of an HTML or JSX block
+ * Tags are sent as placeholders inside the text around them and restored exactly; block-level
+ * tags, comments, JSX expressions and the content of raw elements (pre, script, ...) are never sent.
+ */
+async function translateHtmlBlock(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; partTranslations: Map<string, string> } | null> {
+  const attributeNames = getHtmlAttributeNames();
+  const htmlOptions = { jsx: block.type === 'jsx_block' };
+  const segmented = segmentHtml(block.content, htmlOptions);
+  const attributes = getHtmlAttributeSegments(block.content, attributeNames, htmlOptions);
+  const segments = [...segmented.segments, ...attributes];
+  const missing = [...new Map(segments.map((segment) => [segment.hash, segment])).values()].filter(
+    (segment) => !knownTranslations.has(segment.hash)
+  );
+  const buildPrompt = createHtmlTextPrompt(targetLanguage, glossary, block.content);
+
+  const partTranslations =
+    missing.length > 0
+      ? await requestNumberedTranslations(block, missing, 'HTML text', buildPrompt, model, token, warnings)
+      : new Map<string, string>();
+  if (partTranslations === null) {
+    return null;
+  }
+
+  const translations = new Map<string, string>();
+  for (const segment of segments) {
+    const translation = partTranslations.get(segment.hash) ?? knownTranslations.get(segment.hash);
+    if (translation !== undefined) {
+      translations.set(segment.hash, translation);
+    }
+  }
+  const translation = translateHtmlAttributes(
+    joinSegments(segmented, translations),
+    attributeNames,
+    (value) => translations.get(generateHash(value)),
+    htmlOptions
+  );
+  return { translation, partTranslations };
+}
+
+/**
+ * Translate the comments (and `translate`-marked string literals) of a fenced code block, or the
+ * labels of a Mermaid diagram
+ * Only the comment and label text is sent to the model; the code is rebuilt byte for byte around it.
+ */
+async function translateCodeBlock(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; partTranslations: Map<string, string> } | null> {
+  const segmented = segmentCodeForTranslation(block);
+  if (!segmented) {
+    return { translation: block.content, partTranslations: new Map() };
+  }
+
+  const missing = [...new Map(segmented.segments.map((segment) => [segment.hash, segment])).values()].filter(
+    (segment) => !knownTranslations.has(segment.hash)
+  );
+  const diagram = getCodeLanguage(block.content) === 'mermaid';
+  const buildPrompt = createCodeTextPrompt(targetLanguage, glossary, block.content, diagram);
+
+  const partTranslations =
+    missing.length > 0
+      ? await requestNumberedTranslations(
+          block,
+          missing,
+          diagram ? 'diagram label' : 'code comment',
+          buildPrompt,
+          model,
+          token,
+          warnings
+        )
+      : new Map<string, string>();
+  if (partTranslations === null) {
+    return null;
+  }
+
+  const translations = new Map<string, string>();
+  for (const segment of segmented.segments) {
+    const translation = partTranslations.get(segment.hash) ?? knownTranslations.get(segment.hash);
+    if (translation !== undefined) {
+      translations.set(segment.hash, translation);
+    }
+  }
+  return { translation: joinCodeSegments(segmented, translations), partTranslations };
+}
+
+/**
+ * Translate the title and body of a container directive or alert
+ * The body is translated as nested blocks, so tables, HTML and nested containers inside it are
+ * handled like top-level ones, and the kind keyword (tip, NOTE, ...) is never sent to the model.
+ */
+async function translateContainerBlock(
+  block: MarkdownBlock,
+  knownTranslations: Map<string, string>,
+  targetLanguage: string,
+  model: TranslationModel,
+  token: vscode.CancellationToken,
+  glossary: GlossaryTerm[],
+  warnings: string[]
+): Promise<{ translation: string; partTranslations: Map<string, string> } | null> {
+  const container = parseContainer(block);
+  if (!container) {
+    return { translation: block.content, partTranslations: new Map() };
+  }
+
+  const { blocks, bodyStart } = getContainerBlocks(container);
+  const { blockTranslations, cancelled, warnings: nestedWarnings } = await translateBlockChunks(
+    splitIntoInternalChunks(blocks),
+    knownTranslations,
+    targetLanguage,
+    model,
+    token,
+    () => {},
+    glossary
+  );
+  if (cancelled) {
+    return null;
+  }
+  warnings.push(...nestedWarnings.map((warning) => `Block ${block.index + 1} (${container.kind}): ${warning}`));
+
+  const translate = (nested: MarkdownBlock) =>
+    blockTranslations.get(nested.hash) ?? knownTranslations.get(nested.hash) ?? nested.content;
+  const title = bodyStart > 0 ? translate(blocks[0]) : container.title;
+  const body = blocks.slice(bodyStart).map(translate).join('\n');
+  return { translation: formatContainer(container, title, body), partTranslations: blockTranslations };
+}
+
 /**
  * Build translation context for a block
  */
@@ -1433,51 +2148,70 @@ async function translateSingleBlock(
   block: MarkdownBlock,
   context: BlockTranslationContext,
   targetLanguage: string,
-  model: vscode.LanguageModelChat,
+  model: TranslationModel,
   token: vscode.CancellationToken,
-  onChunk: (chunk: string) => void
+  onChunk: (chunk: string) => void,
+  glossary: GlossaryTerm[],
+  warnings: string[]
 ): Promise<string | null> {
   // Skip translation for certain block types
-  if (block.type === 'code_block' || block.type === 'blank_lines' || block.type === 'thematic_break') {
+  if (isPassthroughBlock(block)) {
     // Just pass through without translation
     onChunk(block.content);
     return block.content;
   }
 
+  // Footnote definitions: only the text is translated, the [^label]: marker is kept
+  const { marker, text } =
+    block.type === 'footnote_definition' ? splitFootnoteDefinition(block.content) : { marker: '', text: block.content };
+
   // Build prompt with context
-  let prompt = `You are a professional translator. Translate the following Markdown block to ${targetLanguage}.
+  const buildPrompt = (text: string) => {
+    let prompt = `You are a professional translator. Translate the following Markdown block to ${targetLanguage}.
 Preserve all Markdown formatting exactly as it is.
 Only translate the text content, not code, URLs, or Markdown syntax.
+${PLACEHOLDER_INSTRUCTION}
 Do not add any explanations or notes - output only the translated Markdown.
 
-`;
-
-  if (context.previousTranslation) {
-    prompt += `[CONTEXT - Previous block (already translated)]:\n${context.previousTranslation}\n\n`;
-  }
+${formatGlossaryForPrompt(glossary)}`;
 
-  prompt += `[TRANSLATE THIS BLOCK]:\n${block.content}`;
+    if (context.previousTranslation) {
+      prompt += `[CONTEXT - Previous block (already translated)]:\n${context.previousTranslation}\n\n`;
+    }
 
-  if (context.nextBlockContent) {
-    prompt += `\n\n[CONTEXT - Next block (original)]:\n${context.nextBlockContent}`;
-  }
+    prompt += `[TRANSLATE THIS BLOCK]:\n${text}`;
 
-  const userMessage = vscode.LanguageModelChatMessage.User(prompt);
-  const messages = [userMessage];
+    if (context.nextBlockContent) {
+      prompt += `\n\n[CONTEXT - Next block (original)]:\n${context.nextBlockContent}`;
+    }
+    return prompt;
+  };
 
   try {
-    const response = await model.sendRequest(messages, {}, token);
+    if (marker) {
+      onChunk(marker);
+    }
+    const { translation: translatedText, cancelled, unprotected } = await requestProtectedTranslation(
+      text,
+      buildPrompt,
+      model,
+      token,
+      onChunk
+    );
+    if (cancelled) {
+      return null;
+    }
+    if (unprotected) {
+      warnings.push(describeUnprotectedTranslation([block]));
+    }
 
-    let translation = '';
-    for await (const fragment of response.text) {
-      if (token.isCancellationRequested) {
-        return null;
-      }
-      translation += fragment;
-      onChunk(fragment);
+    const translation = marker + translatedText;
+    const alignment = alignBlockTranslations([block], parseTranslation(translation, [block]));
+    if (alignment.failures.length > 0) {
+      return await retranslateInvalidBlock(block, buildPrompt, model, token, warnings);
     }
 
-    return translation;
+    return alignment.translations.get(block.hash) ?? translation;
   } catch (error) {
     if (token.isCancellationRequested) {
       return null;
@@ -1486,33 +2220,6 @@ Do not add any explanations or notes - output only the translated Markdown.
   }
 }
 
-/**
- * Merge translated blocks into final document
- * @param document - The parsed document
- * @param translations - Map of block hash to translation
- * @param upToBlockIndex - Optional: only merge blocks up to this index (inclusive)
- */
-export function mergeTranslatedBlocks(
-  document: ParsedDocument,
-  translations: Map<string, string>,
-  upToBlockIndex?: number
-): string {
-  const translatedBlocks: string[] = [];
-  const lastIndex = upToBlockIndex ?? document.blocks.length - 1;
-
-  for (let i = 0; i <= lastIndex && i < document.blocks.length; i++) {
-    const block = document.blocks[i];
-    const translation = translations.get(block.hash);
-    if (translation !== undefined) {
-      translatedBlocks.push(translation);
-    } else {
-      // No translation available - use original (shouldn't happen normally)
-      translatedBlocks.push(block.content);
-    }
-  }
-
-  return translatedBlocks.join('\n');
-}
-
-// Re-export parseMarkdownToBlocks for use in other modules
+// Re-export parseMarkdownToBlocks and mergeTranslatedBlocks for use in other modules
 export { parseMarkdownToBlocks } from './parser';
+export { mergeTranslatedBlocks } from './blocks';
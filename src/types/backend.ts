@@ -0,0 +1,55 @@
+/**
+ * Translation backend types
+ */
+
+import type { CancellationToken } from 'vscode';
+
+/**
+ * A chat message sent to a translation model
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A model that can translate text
+ */
+export interface TranslationModel {
+  /** Unique model ID (stored in the `markdownTranslate.modelId` setting) */
+  readonly id: string;
+  /** Display name */
+  readonly name: string;
+  readonly vendor: string;
+  readonly family: string;
+  /** Maximum number of tokens the model accepts in a request */
+  readonly maxInputTokens: number;
+  /** The backend providing this model */
+  readonly backend: TranslationBackend;
+
+  /**
+   * Send a request and stream the response text
+   * When the token is cancelled, the stream ends early.
+   */
+  sendRequest(messages: ChatMessage[], token: CancellationToken): Promise<AsyncIterable<string>>;
+}
+
+/**
+ * A source of translation models (VS Code Language Model API, HTTP endpoints, ...)
+ */
+export interface TranslationBackend {
+  /** Backend ID (prefix of model IDs for backends other than vscode.lm) */
+  readonly id: string;
+  /** Display name, shown as a group in the model dropdown */
+  readonly label: string;
+
+  /**
+   * List the models this backend currently provides
+   */
+  listModels(): Promise<TranslationModel[]>;
+
+  /**
+   * Get a model by ID without listing every model (optional, for backends where listing is slow)
+   */
+  getModel?(id: string): TranslationModel | undefined;
+}
@@ -10,12 +10,20 @@ export type BlockType =
   | 'paragraph'
   | 'code_block'
   | 'blockquote'
+  | 'alert'
+  | 'container_directive'
   | 'list'
   | 'table'
   | 'thematic_break'
   | 'blank_lines'
   | 'html_block'
-  | 'front_matter';
+  | 'front_matter'
+  | 'math_block'
+  | 'footnote_definition'
+  | 'link_reference_definition'
+  | 'mdx_esm'
+  | 'mdx_expression'
+  | 'jsx_block';
 
 /**
  * A single Markdown block
@@ -35,6 +43,11 @@ export interface MarkdownBlock {
   endLine: number;
 }
 
+/**
+ * Line ending of a document
+ */
+export type LineEnding = '\n' | '\r\n';
+
 /**
  * A parsed Markdown document
  */
@@ -43,8 +56,22 @@ export interface ParsedDocument {
   blocks: MarkdownBlock[];
   /** Lookup map from hash to block for fast matching */
   blocksByHash: Map<string, MarkdownBlock[]>;
-  /** Overall document hash for quick equality check */
+  /** Overall document hash (of the content with LF line endings), calculated on first access */
   documentHash: string;
+  /** Whether the document was parsed as MDX */
+  mdx?: boolean;
+  /** Line ending of the document when it isn't "\n" (block content and hashes always use "\n") */
+  lineEnding?: LineEnding;
+}
+
+/**
+ * Lines replaced by one or more edits: lines `start`..`oldEnd` of the previous content became
+ * lines `start`..`newEnd` of the new content (0-indexed, inclusive)
+ */
+export interface EditedLines {
+  start: number;
+  oldEnd: number;
+  newEnd: number;
 }
 
 /**
@@ -61,6 +88,21 @@ export interface BlockChange {
   oldBlock?: MarkdownBlock;
   /** The new block (for added/modified) */
   newBlock?: MarkdownBlock;
+  /** Number of sentences of the new block that aren't in the old block (for modified paragraphs) */
+  changedSegments?: number;
+  /** Item-level changes (for modified lists) */
+  itemChanges?: ListItemChange[];
+}
+
+/**
+ * Describes a change to an item of a modified list
+ */
+export interface ListItemChange {
+  type: 'added' | 'removed' | 'modified';
+  /** Item index in the old list (for removed/modified) */
+  oldIndex?: number;
+  /** Item index in the new list (for added/modified) */
+  newIndex?: number;
 }
 
 /**
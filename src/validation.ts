@@ -0,0 +1,232 @@
+/**
+ * Structural validation of translated blocks
+ * A translation must keep the Markdown structure of its source block: translating text
+ * never changes block types, heading levels, list items, table shape, footnote labels, code or links.
+ */
+
+import { MarkdownBlock, ParsedDocument } from './types/block';
+import { isPassthroughBlock, splitFootnoteDefinition } from './blocks';
+
+/**
+ * A translated block that failed validation
+ */
+export interface BlockValidationFailure {
+  block: MarkdownBlock;
+  /** Human-readable reason */
+  reason: string;
+}
+
+/**
+ * Result of aligning a model response with its source blocks
+ */
+export interface BlockAlignment {
+  /** Block translations (hash -> translation) for every source block */
+  translations: Map<string, string>;
+  /** Blocks whose translation failed validation */
+  failures: BlockValidationFailure[];
+}
+
+/**
+ * Get the level of an ATX or setext heading (0 if the content is not a heading)
+ */
+function getHeadingLevel(content: string): number {
+  const atx = content.match(/^ {0,3}(#{1,6})(?:\s|$)/);
+  if (atx) {
+    return atx[1].length;
+  }
+  const setext = content.match(/\n {0,3}(=+|-+)[ \t]*$/);
+  if (setext) {
+    return setext[1][0] === '=' ? 1 : 2;
+  }
+  return 0;
+}
+
+/**
+ * Count list items at the outermost indentation of a list block
+ */
+function countListItems(content: string): number {
+  const items = content
+    .split('\n')
+    .map((line) => line.match(/^(\s*)(?:[-*+]|\d+[.)])\s/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+  if (items.length === 0) {
+    return 0;
+  }
+  const indent = Math.min(...items.map((match) => match[1].length));
+  return items.filter((match) => match[1].length === indent).length;
+}
+
+/**
+ * Get the number of rows and the number of columns (from the separator row) of a table block
+ */
+function getTableShape(content: string): { rows: number; columns: number } {
+  const lines = content.split('\n').filter((line) => line.trim() !== '');
+  const separator = lines.find((line) => /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/.test(line)) ?? '';
+  const columns = separator
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|').length;
+  return { rows: lines.length, columns };
+}
+
+/**
+ * Extract fenced code blocks (fence lines included) from block content
+ */
+function extractFencedCode(content: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] | null = null;
+  let fence: { char: string; length: number } | null = null;
+
+  for (const line of content.split('\n')) {
+    if (current && fence) {
+      current.push(line.trimEnd());
+      const closing = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === fence.char && closing[1].length >= fence.length) {
+        blocks.push(current.join('\n'));
+        current = null;
+        fence = null;
+      }
+      continue;
+    }
+
+    const opening = line.match(/^\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+)?(`{3,}|~{3,})/);
+    if (opening) {
+      current = [line.trim()];
+      fence = { char: opening[1][0], length: opening[1].length };
+    }
+  }
+  if (current) {
+    blocks.push(current.join('\n'));
+  }
+
+  return blocks;
+}
+
+/**
+ * Count links and images (inline, reference and autolinks) outside of code
+ */
+function countLinks(content: string): number {
+  const text = content.replace(/(`+)[\s\S]*?\1/g, '');
+  const inline = text.match(/\]\(/g)?.length ?? 0;
+  const reference = text.match(/\]\[[^\]\n]*\]/g)?.length ?? 0;
+  const autolinks = text.match(/<[A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*>/g)?.length ?? 0;
+  return inline + reference + autolinks;
+}
+
+/**
+ * Compare a source block with its translation
+ * @returns Reason the translation is invalid, or undefined if it keeps the source structure
+ */
+export function validateBlockTranslation(source: MarkdownBlock, translation: MarkdownBlock): string | undefined {
+  if (source.type !== translation.type) {
+    return `expected ${source.type} but got ${translation.type}`;
+  }
+
+  if (isPassthroughBlock(source)) {
+    return source.content.trimEnd() === translation.content.trimEnd()
+      ? undefined
+      : `${source.type.replace(/_/g, ' ')} was changed`;
+  }
+
+  if (source.type === 'footnote_definition') {
+    const expected = splitFootnoteDefinition(source.content).marker.trim();
+    const actual = splitFootnoteDefinition(translation.content).marker.trim();
+    if (expected !== actual) {
+      return `footnote marker changed from ${expected} to ${actual}`;
+    }
+  }
+
+  if (source.type === 'heading') {
+    const expected = getHeadingLevel(source.content);
+    const actual = getHeadingLevel(translation.content);
+    if (expected !== actual) {
+      return `heading level changed from ${expected} to ${actual}`;
+    }
+  }
+
+  if (source.type === 'list') {
+    const expected = countListItems(source.content);
+    const actual = countListItems(translation.content);
+    if (expected !== actual) {
+      return `list item count changed from ${expected} to ${actual}`;
+    }
+  }
+
+  if (source.type === 'table') {
+    const expected = getTableShape(source.content);
+    const actual = getTableShape(translation.content);
+    if (expected.rows !== actual.rows || expected.columns !== actual.columns) {
+      return `expected a ${expected.rows}x${expected.columns} table but got ${actual.rows}x${actual.columns}`;
+    }
+  }
+
+  const sourceCode = extractFencedCode(source.content);
+  const translatedCode = extractFencedCode(translation.content);
+  if (sourceCode.length !== translatedCode.length || sourceCode.some((code, i) => code !== translatedCode[i])) {
+    return 'fenced code was changed';
+  }
+
+  const expectedLinks = countLinks(source.content);
+  const actualLinks = countLinks(translation.content);
+  if (expectedLinks !== actualLinks) {
+    return `link count changed from ${expectedLinks} to ${actualLinks}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Map a translated run of blocks back to its source blocks and validate each pair
+ * Blank lines are matched by position among content blocks only, so extra or missing blank
+ * lines in the response don't shift the alignment. When the number of content blocks differs
+ * (e.g. the model merged two paragraphs) the alignment can't be trusted and every block fails.
+ */
+export function alignBlockTranslations(sourceBlocks: MarkdownBlock[], translation: ParsedDocument): BlockAlignment {
+  const translations = new Map<string, string>();
+  const failures: BlockValidationFailure[] = [];
+
+  const sourceContent = sourceBlocks.filter((block) => block.type !== 'blank_lines');
+  const translatedContent = translation.blocks.filter((block) => block.type !== 'blank_lines');
+  const countMatches = sourceContent.length === translatedContent.length;
+
+  for (const block of sourceBlocks) {
+    if (block.type === 'blank_lines') {
+      translations.set(block.hash, block.content);
+    }
+  }
+
+  sourceContent.forEach((block, i) => {
+    const translated = translatedContent[i];
+    if (!countMatches || !translated) {
+      translations.set(block.hash, isPassthroughBlock(block) ? block.content : translated?.content ?? '');
+      if (!isPassthroughBlock(block)) {
+        failures.push({
+          block,
+          reason: `block count changed from ${sourceContent.length} to ${translatedContent.length}`,
+        });
+      }
+      return;
+    }
+
+    const reason = validateBlockTranslation(block, translated);
+    if (reason && isPassthroughBlock(block)) {
+      // Untranslatable blocks can always be restored from the source
+      translations.set(block.hash, block.content);
+      return;
+    }
+    translations.set(block.hash, translated.content);
+    if (reason) {
+      failures.push({ block, reason });
+    }
+  });
+
+  return { translations, failures };
+}
+
+/**
+ * Format a validation failure for logs and the preview
+ */
+export function describeValidationFailure(failure: BlockValidationFailure): string {
+  return `Block ${failure.block.index + 1}: translation doesn't match the source structure (${failure.reason})`;
+}
@@ -8,6 +8,10 @@ import { ErrorMessage } from './components/Error';
 import { Loading } from './components/Loading';
 import { PreviewPane } from './components/PreviewPane';
 import { Toolbar } from './components/Toolbar';
+import { Warnings } from './components/Warnings';
+import { renderContainerDirectives } from './directives';
+import { renderMdxPlaceholders } from './mdx';
+import { createSlugger } from './slug';
 import type {
   PartialTranslationInfo,
   PreviewData,
@@ -28,26 +32,48 @@ marked.use(markedAlert());
 marked.use(markedKatex({ throwOnError: false }));
 marked.setOptions({ gfm: true, breaks: true });
 
+/**
+ * Escape a value for a double-quoted HTML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
 /**
  * Parse markdown with image path resolution
- * Converts relative image paths to absolute webview URIs
+ * Converts relative image paths to absolute webview URIs, gives headings IDs for #fragment links,
+ * shows MDX components as placeholders and renders ::: containers as alerts
  */
-async function parseMarkdown(markdown: string, imageBaseUri?: string): Promise<string> {
-  if (!imageBaseUri) {
-    return marked.parse(markdown);
+async function parseMarkdown(
+  markdown: string,
+  imageBaseUri?: string,
+  mdx?: boolean
+): Promise<string> {
+  // The preprocessing below works line by line on LF line endings
+  markdown = markdown.replace(/\r\n?/g, '\n');
+  if (mdx) {
+    markdown = renderMdxPlaceholders(markdown);
   }
+  markdown = renderContainerDirectives(markdown);
 
   // Create a custom renderer for this parse call
   const renderer = new marked.Renderer();
-  const originalImage = renderer.image.bind(renderer);
 
-  renderer.image = (href: string, title: string | null, text: string) => {
-    // If href is relative (not http/https/data:), prepend imageBaseUri
-    if (href && !href.match(/^(https?:|data:)/i)) {
-      href = imageBaseUri + href;
-    }
-    return originalImage(href, title, text);
-  };
+  // Give headings GitHub-style IDs so #fragment links work
+  const slug = createSlugger();
+  renderer.heading = (text: string, level: number, raw: string) =>
+    `<h${level} id="${escapeAttribute(slug(raw))}">${text}</h${level}>\n`;
+
+  if (imageBaseUri) {
+    const originalImage = renderer.image.bind(renderer);
+    renderer.image = (href: string, title: string | null, text: string) => {
+      // If href is relative (not http/https/data:), prepend imageBaseUri
+      if (href && !href.match(/^(https?:|data:)/i)) {
+        href = imageBaseUri + href;
+      }
+      return originalImage(href, title, text);
+    };
+  }
 
   return marked.parse(markdown, { renderer });
 }
@@ -89,6 +115,7 @@ function App() {
   const [isContinuing, setIsContinuing] = useState(false);
   const [isCanceling, setIsCanceling] = useState(false);
   const [lastPartialInfo, setLastPartialInfo] = useState<PartialTranslationInfo | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
 
   const originalRef = useRef<HTMLDivElement>(null);
   const translationRef = useRef<HTMLDivElement>(null);
@@ -99,8 +126,12 @@ function App() {
 
   // Parse content from preview data
   const getParsedContent = useCallback(async (data: PreviewData): Promise<ParsedContent> => {
-    const originalFullHtml = await parseMarkdown(data.originalFull, data.imageBaseUri);
-    const translatedFullHtml = await parseMarkdown(data.translatedFull, data.imageBaseUri);
+    const originalFullHtml = await parseMarkdown(data.originalFull, data.imageBaseUri, data.mdx);
+    const translatedFullHtml = await parseMarkdown(
+      data.translatedFull,
+      data.imageBaseUri,
+      data.mdx
+    );
 
     return {
       original: { md: data.originalFull, html: originalFullHtml },
@@ -178,7 +209,8 @@ function App() {
           // Start streaming: show original immediately, translation will stream in
           const originalHtml = await parseMarkdown(
             message.data.originalFull,
-            message.data.imageBaseUri
+            message.data.imageBaseUri,
+            message.data.mdx
           );
           setStreamingOriginalHtml(originalHtml);
 
@@ -187,7 +219,8 @@ function App() {
           if (existingTranslation) {
             const existingHtml = await parseMarkdown(
               existingTranslation,
-              message.data.imageBaseUri
+              message.data.imageBaseUri,
+              message.data.mdx
             );
             setStreamingTranslationHtml(existingHtml);
           } else {
@@ -198,6 +231,7 @@ function App() {
           streamingStateRef.current = { data: message.data, translationMd: existingTranslation };
           setState({ type: 'streaming', data: message.data, translationMd: existingTranslation });
           setCharDiff(0); // Reset on new translation
+          setWarnings([]);
           break;
         }
         case 'streamChunk': {
@@ -205,10 +239,10 @@ function App() {
           if (streamingStateRef.current) {
             const newTranslationMd = streamingStateRef.current.translationMd + message.chunk;
             streamingStateRef.current.translationMd = newTranslationMd;
-            const imageBaseUri = streamingStateRef.current.data.imageBaseUri;
+            const { imageBaseUri, mdx } = streamingStateRef.current.data;
             // Parse the markdown asynchronously
             (async () => {
-              const html = await parseMarkdown(newTranslationMd, imageBaseUri);
+              const html = await parseMarkdown(newTranslationMd, imageBaseUri, mdx);
               setStreamingTranslationHtml(html);
             })();
             setState((prev) => {
@@ -223,7 +257,8 @@ function App() {
           if (streamingStateRef.current) {
             const finalData: PreviewData = {
               ...streamingStateRef.current.data,
-              translatedFull: streamingStateRef.current.translationMd,
+              // Prefer the final translation: streamed text may differ when a request was retried
+              translatedFull: message.translatedFull ?? streamingStateRef.current.translationMd,
             };
             const parsed = await getParsedContent(finalData);
             setParsedContent(parsed);
@@ -260,12 +295,14 @@ function App() {
           // Start incremental translation: show original immediately, loading in translation
           const originalHtml = await parseMarkdown(
             message.data.originalFull,
-            message.data.imageBaseUri
+            message.data.imageBaseUri,
+            message.data.mdx
           );
           setIncrementalOriginalHtml(originalHtml);
           incrementalStateRef.current = { data: message.data };
           setState({ type: 'incremental', data: message.data, message: message.message });
           setCharDiff(0);
+          setWarnings([]);
           break;
         }
         case 'incrementalProgress': {
@@ -293,6 +330,11 @@ function App() {
           setLastPartialInfo(null);
           break;
         }
+        case 'setWarnings': {
+          // Translation finished with warnings (e.g. glossary violations)
+          setWarnings(message.warnings);
+          break;
+        }
         case 'documentChanged': {
           // Source document has changed
           setCharDiff(message.charDiff);
@@ -382,6 +424,11 @@ function App() {
     vscode.postMessage({ type: 'retranslate' });
   }, []);
 
+  // Handle save translation to file
+  const handleSave = useCallback(() => {
+    vscode.postMessage({ type: 'saveTranslation' });
+  }, []);
+
   // Handle continue translation (for chunked documents)
   const handleContinueTranslation = useCallback(() => {
     if (state.type === 'preview' && state.data.partial) {
@@ -489,6 +536,7 @@ function App() {
           onAutoTranslateThresholdChange={handleAutoTranslateThresholdChange}
           onUpdate={handleUpdate}
           onRetranslate={handleRetranslate}
+          onSave={handleSave}
           isStreaming={true}
           changedBlockCount={0}
         />
@@ -560,6 +608,7 @@ function App() {
           onAutoTranslateThresholdChange={handleAutoTranslateThresholdChange}
           onUpdate={handleUpdate}
           onRetranslate={handleRetranslate}
+          onSave={handleSave}
           isStreaming={true}
           changedBlockCount={0}
         />
@@ -633,9 +682,11 @@ function App() {
         onAutoTranslateThresholdChange={handleAutoTranslateThresholdChange}
         onUpdate={handleUpdate}
         onRetranslate={handleRetranslate}
+        onSave={handleSave}
         isStreaming={false}
         changedBlockCount={charDiff}
       />
+      <Warnings warnings={warnings} onDismiss={() => setWarnings([])} />
       <div className={`preview-container ${viewMode}`}>
         <PreviewPane
           type="original"
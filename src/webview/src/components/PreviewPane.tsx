@@ -61,6 +61,31 @@ export const PreviewPane = forwardRef<HTMLDivElement, PreviewPaneProps>(
       renderMermaid();
     }, [html, type, isStreaming]);
 
+    // Follow #fragment links inside this pane (both panes have the same heading IDs)
+    useEffect(() => {
+      const container = contentRef.current;
+      if (!container) return;
+
+      const handleClick = (event: MouseEvent) => {
+        const link = (event.target as HTMLElement).closest('a');
+        const href = link?.getAttribute('href');
+        if (!href?.startsWith('#')) return;
+
+        event.preventDefault();
+        let id = href.slice(1);
+        try {
+          id = decodeURIComponent(id);
+        } catch {
+          // Keep malformed escapes as written
+        }
+        const selector = `[id="${CSS.escape(id)}"], a[name="${CSS.escape(id)}"]`;
+        container.querySelector(selector)?.scrollIntoView({ block: 'start' });
+      };
+
+      container.addEventListener('click', handleClick);
+      return () => container.removeEventListener('click', handleClick);
+    }, []);
+
     return (
       <div className={`pane ${type} ${hidden ? 'hidden' : ''}`}>
         <div className="pane-header">
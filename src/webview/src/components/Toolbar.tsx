@@ -1,5 +1,5 @@
 import * as Tooltip from '@radix-ui/react-tooltip';
-import { HelpCircle, RefreshCw, RotateCcw } from 'lucide-react';
+import { HelpCircle, RefreshCw, RotateCcw, Save } from 'lucide-react';
 import { useState } from 'react';
 import { type ModelInfo, PRESET_LANGUAGES, type ViewMode } from '../types';
 
@@ -38,6 +38,7 @@ interface ToolbarProps {
   onAutoTranslateThresholdChange: (threshold: number) => void;
   onUpdate: () => void;
   onRetranslate: () => void;
+  onSave: () => void;
   isStreaming?: boolean;
   changedBlockCount?: number;
 }
@@ -59,6 +60,7 @@ export function Toolbar({
   onAutoTranslateThresholdChange,
   onUpdate,
   onRetranslate,
+  onSave,
   isStreaming = false,
   changedBlockCount = 0,
 }: ToolbarProps) {
@@ -170,6 +172,16 @@ export function Toolbar({
             <RotateCcw size={14} />
             Retranslate
           </button>
+          <button
+            type="button"
+            className="action-btn"
+            onClick={onSave}
+            title="Save translation to a file"
+            disabled={isStreaming}
+          >
+            <Save size={14} />
+            Save
+          </button>
           <button
             type="button"
             className="action-btn"
@@ -217,10 +229,16 @@ export function Toolbar({
             disabled={isStreaming}
           >
             <option value="">Auto (default)</option>
-            {models.map((model) => (
-              <option key={model.id} value={model.id}>
-                {model.name}
-              </option>
+            {[...new Set(models.map((model) => model.backend))].map((backend) => (
+              <optgroup key={backend} label={backend}>
+                {models
+                  .filter((model) => model.backend === backend)
+                  .map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}
+                    </option>
+                  ))}
+              </optgroup>
             ))}
           </select>
         </div>
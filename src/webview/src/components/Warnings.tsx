@@ -0,0 +1,41 @@
+import { AlertTriangle, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface WarningsProps {
+  warnings: string[];
+  onDismiss: () => void;
+}
+
+export function Warnings({ warnings, onDismiss }: WarningsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="warnings-bar">
+      <div className="warnings-header">
+        <button
+          type="button"
+          className="warnings-summary"
+          onClick={() => setExpanded(!expanded)}
+          title={expanded ? 'Hide details' : 'Show details'}
+        >
+          <AlertTriangle size={14} />
+          {warnings.length} translation {warnings.length === 1 ? 'warning' : 'warnings'}
+        </button>
+        <button type="button" className="warnings-dismiss" onClick={onDismiss} title="Dismiss">
+          <X size={14} />
+        </button>
+      </div>
+      {expanded && (
+        <ul className="warnings-list">
+          {warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,3 +2,4 @@ export { ErrorMessage } from './Error';
 export { Loading } from './Loading';
 export { PreviewPane } from './PreviewPane';
 export { Toolbar } from './Toolbar';
+export { Warnings } from './Warnings';
@@ -0,0 +1,101 @@
+/**
+ * Container directive preview support
+ * :::kind Title ... ::: containers are rewritten as GitHub alerts, so they're rendered like
+ * > [!NOTE] blocks. Kinds without a matching alert type are shown as notes with the kind as title.
+ */
+
+const DIRECTIVE_OPENING =
+  /^ {0,3}(:{3,})[ \t]*([A-Za-z][\w-]*)(?:\[([^\]]*)\]|[ \t]+([^{]*?))?[ \t]*(?:\{[^}]*\})?[ \t]*$/;
+
+const DIRECTIVE_CLOSING = /^ {0,3}(:{3,})[ \t]*$/;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+const ALERT_TYPES: Record<string, string> = {
+  note: 'NOTE',
+  info: 'NOTE',
+  tip: 'TIP',
+  hint: 'TIP',
+  success: 'TIP',
+  important: 'IMPORTANT',
+  warning: 'WARNING',
+  caution: 'CAUTION',
+  danger: 'CAUTION',
+  error: 'CAUTION',
+};
+
+/**
+ * Check if a directive opened at a line is closed later (unclosed ones are plain paragraphs)
+ */
+function isClosed(lines: string[], start: number, length: number): boolean {
+  let fence: string | undefined;
+  for (const line of lines.slice(start + 1)) {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      fence = fenceMatch?.[1].startsWith(fence) ? undefined : fence;
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+    } else if ((line.match(DIRECTIVE_CLOSING)?.[1].length ?? 0) >= length) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Rewrite container directives (outside of fenced code) as alerts
+ */
+export function renderContainerDirectives(markdown: string): string {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  // Colon count of each open directive, innermost last
+  const open: number[] = [];
+  let fence: string | undefined;
+
+  const push = (line: string) => {
+    const prefix = '> '.repeat(open.length);
+    output.push(line.trim() === '' ? prefix.trimEnd() : prefix + line);
+  };
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      push(line);
+      if (fenceMatch?.[1].startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+        fence = undefined;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      push(line);
+      return;
+    }
+
+    const closing = line.match(DIRECTIVE_CLOSING);
+    if (closing && open.length > 0 && closing[1].length >= open[open.length - 1]) {
+      open.pop();
+      // A blank line keeps the following text out of the alert
+      push('');
+      return;
+    }
+
+    const opening = line.match(DIRECTIVE_OPENING);
+    if (opening && isClosed(lines, index, opening[1].length)) {
+      const [, colons, kind, bracketed, plain] = opening;
+      const type = ALERT_TYPES[kind.toLowerCase()];
+      const title = (bracketed ?? plain ?? '').trim() || (type ? '' : kind);
+      push(`> [!${type ?? 'NOTE'}]`);
+      if (title) {
+        push(`> **${title}**`);
+        push('>');
+      }
+      open.push(colons.length);
+      return;
+    }
+
+    push(line);
+  });
+
+  return output.join('\n');
+}
@@ -0,0 +1,90 @@
+/**
+ * MDX preview support
+ * Import/export statements and {expression} blocks are hidden, and JSX components are shown as
+ * labelled placeholders around their children, since the components themselves aren't available.
+ */
+
+const COMPONENT_TAG =
+  /<(\/?)([A-Z][\w.]*)(?:\s+(?:[^<>"'{}]|"[^"]*"|'[^']*'|\{(?:[^{}]|\{[^{}]*\})*\})*)?(\/?)>/g;
+
+const FRAGMENT_TAG = /<\/?>/g;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+function renderComponentTag(closing: string, name: string, selfClosing: string): string {
+  if (closing) {
+    return '</span>';
+  }
+  const open = `<span class="mdx-component" data-component="${name}">`;
+  return selfClosing ? `${open}</span>` : open;
+}
+
+/**
+ * Get the brace depth change of a line of a JS expression
+ */
+function countBraces(line: string): number {
+  return (line.match(/\{/g)?.length ?? 0) - (line.match(/\}/g)?.length ?? 0);
+}
+
+/**
+ * Replace MDX syntax that Markdown renderers don't understand (outside of fenced code)
+ */
+export function renderMdxPlaceholders(markdown: string): string {
+  const output: string[] = [];
+  let fence: string | undefined;
+  let skipping: 'esm' | 'expression' | undefined;
+  let depth = 0;
+  let previousBlank = true;
+
+  for (const line of markdown.split('\n')) {
+    const blank = line.trim() === '';
+    const blockStart = previousBlank;
+    previousBlank = blank;
+
+    if (fence) {
+      output.push(line);
+      if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+        fence = undefined;
+      }
+      continue;
+    }
+    if (skipping === 'esm') {
+      skipping = blank ? undefined : 'esm';
+      if (blank) {
+        output.push(line);
+      }
+      continue;
+    }
+    if (skipping === 'expression') {
+      depth += countBraces(line);
+      skipping = depth > 0 ? 'expression' : undefined;
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+    if (blockStart && /^(?:import|export)(?:[ \t{*]|$)/.test(line)) {
+      skipping = 'esm';
+      continue;
+    }
+    if (blockStart && /^ {0,3}\{/.test(line)) {
+      depth = countBraces(line);
+      skipping = depth > 0 ? 'expression' : undefined;
+      continue;
+    }
+
+    output.push(
+      line
+        .replace(COMPONENT_TAG, (_, closing: string, name: string, selfClosing: string) =>
+          renderComponentTag(closing, name, selfClosing)
+        )
+        .replace(FRAGMENT_TAG, '')
+    );
+  }
+
+  return output.join('\n');
+}
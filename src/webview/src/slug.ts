@@ -0,0 +1,41 @@
+/**
+ * GitHub-style heading IDs, so #fragment links in the preview find their headings
+ * Mirrors the slugs the extension uses to remap links in translations.
+ */
+
+const EXPLICIT_ID = /[ \t]*\{#([^\s}]+)\}[ \t]*$/;
+
+/**
+ * Convert heading text to a GitHub-style slug
+ */
+function slugify(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:#\d+|#x[\da-f]+|\w+);/gi, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * Create a slugger that numbers repeated slugs like GitHub (setup, setup-1, setup-2, ...)
+ * Headings with an explicit {#id} use that ID.
+ */
+export function createSlugger(): (text: string) => string {
+  const occurrences = new Map<string, number>();
+  return (text) => {
+    const explicitId = text.match(EXPLICIT_ID)?.[1];
+    if (explicitId) {
+      return explicitId;
+    }
+    const base = slugify(text);
+    let slug = base;
+    while (occurrences.has(slug)) {
+      const count = (occurrences.get(base) ?? 0) + 1;
+      occurrences.set(base, count);
+      slug = `${base}-${count}`;
+    }
+    occurrences.set(slug, 0);
+    return slug;
+  };
+}
@@ -4,6 +4,8 @@ export interface ModelInfo {
   vendor: string;
   family: string;
   maxInputTokens: number;
+  /** Display name of the backend providing the model */
+  backend: string;
 }
 
 export interface LanguageOption {
@@ -44,6 +46,8 @@ export interface PreviewData {
   partial?: PartialTranslationInfo;
   /** Base URI for resolving relative image paths */
   imageBaseUri?: string;
+  /** Whether the document is MDX (components are shown as placeholders) */
+  mdx?: boolean;
   /** Debug mode enabled */
   debugMode?: boolean;
   /** Auto-translate threshold (0 = disabled) */
@@ -59,6 +63,8 @@ export interface StreamingData {
   chunkSize: number;
   /** Base URI for resolving relative image paths */
   imageBaseUri?: string;
+  /** Whether the document is MDX (components are shown as placeholders) */
+  mdx?: boolean;
   /** Existing translation content (for continue translation) */
   existingTranslation?: string;
   /** Debug mode enabled */